@@ -0,0 +1,67 @@
+import { currentContext } from "./context.js";
+
+// Output budgets: how much text a list tool may return before it switches
+// to a compact rendering and hands back a cursor for the rest.
+
+// Rough characters per token for English text, tables and JSON
+const CHARS_PER_TOKEN = 4;
+const DEFAULT_MAX_OUTPUT_TOKENS = 8000;
+
+/** Budget in estimated tokens when a call sets none; 0 means unlimited. */
+export const defaultOutputBudget = parseBudget(process.env.LUNCHMONEY_MAX_OUTPUT_TOKENS?.trim());
+
+function parseBudget(value: string | undefined): number {
+  if (!value) return DEFAULT_MAX_OUTPUT_TOKENS;
+  const tokens = Number(value);
+  if (Number.isInteger(tokens) && tokens >= 0) return tokens;
+  console.error(
+    `Ignoring invalid LUNCHMONEY_MAX_OUTPUT_TOKENS "${value}"; using ${DEFAULT_MAX_OUTPUT_TOKENS}.`
+  );
+  return DEFAULT_MAX_OUTPUT_TOKENS;
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * The largest count in 1..`total` whose rendering fits in `budget` tokens.
+ * `render(n)` must grow with n. At least one item is always kept so a
+ * continuation makes progress.
+ */
+export function fitCount(total: number, render: (n: number) => string, budget: number): number {
+  let low = 1;
+  let high = total;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(render(mid)) <= budget) low = mid;
+    else high = mid - 1;
+  }
+  return Math.min(low, total);
+}
+
+/**
+ * Opaque cursor carrying everything `tool` needs to fetch the next part of
+ * a listing, tied to the current profile or session. Cursors hold no
+ * secrets; they are only encoded to discourage editing them by hand.
+ */
+export function encodeCursor(tool: string, state: object): string {
+  const { key } = currentContext();
+  return Buffer.from(JSON.stringify({ tool, context: key, ...state })).toString("base64url");
+}
+
+/**
+ * The state in a cursor from `encodeCursor` and the context key (profile
+ * name or `session:<id>`) it was made in, or null if it is not one for `tool`.
+ */
+export function decodeCursor<T extends object>(
+  tool: string,
+  cursor: string
+): { state: T; context: string } | null {
+  try {
+    const { tool: owner, context, ...state } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return owner === tool && typeof context === "string" ? { state: state as T, context } : null;
+  } catch {
+    return null;
+  }
+}
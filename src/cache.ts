@@ -1,59 +1,308 @@
 import { api, handleError } from "./client.js";
+import { currentContext } from "./context.js";
 import type { components } from "./types.js";
 
 type Category = components["schemas"]["categoryObject"];
 type Tag = components["schemas"]["tagObject"];
 type ManualAccount = components["schemas"]["manualAccountObject"];
 type PlaidAccount = components["schemas"]["plaidAccountObject"];
+type User = components["schemas"]["userObject"];
+
+export type CacheEntity = "categories" | "tags" | "manualAccounts" | "plaidAccounts" | "user";
+
+export const CACHE_ENTITIES: CacheEntity[] = [
+  "categories",
+  "tags",
+  "manualAccounts",
+  "plaidAccounts",
+  "user",
+];
+
+// Failed entities are retried on use, but at most this often
+const RETRY_INTERVAL_MS = 30_000;
+
+// How long each entity is trusted before a background refresh, in seconds
+const DEFAULT_TTL_SECONDS: Record<CacheEntity, number> = {
+  categories: 600,
+  tags: 600,
+  manualAccounts: 300,
+  plaidAccounts: 300,
+  user: 3600,
+};
+
+// Names accepted in LUNCHMONEY_CACHE_TTL and by the refresh_cache tool
+export const CACHE_ENTITY_KEYS: Record<string, CacheEntity> = {
+  categories: "categories",
+  tags: "tags",
+  manual_accounts: "manualAccounts",
+  plaid_accounts: "plaidAccounts",
+  user: "user",
+};
+
+interface EntityState {
+  /** When the entity last loaded successfully */
+  loadedAt: number | null;
+  /** Why the last load failed, if it did */
+  error: string | null;
+  /** When the last load started */
+  lastAttempt: number;
+  /** Unknown ids already refetched for since the last load */
+  missed: Set<number>;
+}
 
 interface Cache {
   categories: Map<number, Category>;
   tags: Map<number, Tag>;
   manualAccounts: Map<number, ManualAccount>;
   plaidAccounts: Map<number, PlaidAccount>;
+  user: User | null;
+  state: Record<CacheEntity, EntityState>;
 }
 
-let cache: Cache | null = null;
+export interface CacheHealth {
+  entity: CacheEntity;
+  size: number;
+  loaded: boolean;
+  loadedAt?: string;
+  ttlSeconds: number;
+  error?: string;
+}
+
+const FETCHERS: { [K in CacheEntity]: () => Promise<Cache[K]> } = {
+  categories: fetchCategories,
+  tags: fetchTags,
+  manualAccounts: fetchManualAccounts,
+  plaidAccounts: fetchPlaidAccounts,
+  user: fetchUser,
+};
+
+// Fields of API records that refer to cached entities by id
+const REFERENCE_FIELDS: Record<string, Exclude<CacheEntity, "user">> = {
+  category_id: "categories",
+  group_id: "categories",
+  tag_ids: "tags",
+  manual_account_id: "manualAccounts",
+  plaid_account_id: "plaidAccounts",
+};
 
+const ttlSeconds = parseTtls(process.env.LUNCHMONEY_CACHE_TTL);
+
+// One cache per profile, keyed by the current context
+const caches = new Map<string, Cache>();
+const pending = new Map<string, Promise<void>>();
+
+/**
+ * Load every entity for the current profile. Entities load independently:
+ * one that fails is left empty (names render as IDs) and retried later.
+ */
 export async function initCache(): Promise<void> {
-  const [categories, tags, manualAccounts, plaidAccounts] = await Promise.all([
-    fetchCategories(),
-    fetchTags(),
-    fetchManualAccounts(),
-    fetchPlaidAccounts(),
-  ]);
-
-  cache = { categories, tags, manualAccounts, plaidAccounts };
-  console.error(
-    `Cache initialized: ${cache.categories.size} categories, ${cache.tags.size} tags, ${cache.manualAccounts.size} manual accounts, ${cache.plaidAccounts.size} plaid accounts`
+  const { profile } = currentContext();
+  const cache = getCache();
+  await loadEntities(cache, CACHE_ENTITIES);
+
+  const counts = `${cache.categories.size} categories, ${cache.tags.size} tags, ${cache.manualAccounts.size} manual accounts, ${cache.plaidAccounts.size} plaid accounts`;
+  const failed = CACHE_ENTITIES.filter((e) => cache.state[e].error !== null);
+  if (failed.length === 0) {
+    console.error(`Cache initialized for profile "${profile}": ${counts}`);
+  } else {
+    console.error(
+      `Cache degraded for profile "${profile}": ${counts}. Failed: ${failed
+        .map((e) => `${e} (${cache.state[e].error})`)
+        .join(", ")}. Showing IDs instead of names; retrying on next use.`
+    );
+  }
+}
+
+/**
+ * Load the current profile's cache on first use and retry entities whose
+ * last load failed. Entities past their TTL are refreshed in the background:
+ * this call keeps serving the current data rather than waiting.
+ */
+export async function ensureCache(): Promise<void> {
+  const { key } = currentContext();
+  const inFlight = pending.get(key);
+  if (inFlight) return inFlight;
+
+  const cache = getCache();
+  const now = Date.now();
+  const expired = CACHE_ENTITIES.filter((e) => {
+    const { loadedAt, lastAttempt } = cache.state[e];
+    return loadedAt !== null && now - Math.max(loadedAt, lastAttempt) >= ttlSeconds[e] * 1000;
+  });
+  if (expired.length > 0) {
+    // Failures are recorded on the entity state, so nothing to handle here
+    void loadEntities(cache, expired);
+  }
+
+  const missing = CACHE_ENTITIES.filter(
+    (e) => cache.state[e].loadedAt === null && now - cache.state[e].lastAttempt >= RETRY_INTERVAL_MS
   );
+  if (missing.length === 0) return;
+
+  const load = (
+    missing.length === CACHE_ENTITIES.length ? initCache() : loadEntities(cache, missing)
+  ).finally(() => pending.delete(key));
+  pending.set(key, load);
+  await load;
+}
+
+/**
+ * Refetch entities that `data` (an API response) refers to by an id the
+ * cache does not know, so records created elsewhere — e.g. a category added
+ * in the web app — render by name. Each unknown id triggers at most one
+ * refetch until the next scheduled or explicit reload; ids that stay
+ * unknown (e.g. a deleted category) render as `Category #123`.
+ */
+export async function ensureReferenced(data: unknown): Promise<void> {
+  const cache = getCache();
+  const unknown = new Set<Exclude<CacheEntity, "user">>();
+  collectReferences(data, (entity, id) => {
+    const state = cache.state[entity];
+    if (state.loadedAt === null || cache[entity].has(id) || state.missed.has(id)) return;
+    state.missed.add(id);
+    unknown.add(entity);
+  });
+  if (unknown.size > 0) await loadEntities(cache, [...unknown], { keepMissed: true });
+}
+
+/** Forget a context's cache, e.g. when its HTTP session ends. */
+export function dropCache(key: string): void {
+  caches.delete(key);
+  pending.delete(key);
 }
 
+/** The current profile's cache, created empty if it has not loaded yet. */
 export function getCache(): Cache {
-  if (!cache) throw new Error("Cache not initialized. Call initCache() first.");
+  const { key } = currentContext();
+  let cache = caches.get(key);
+  if (!cache) {
+    cache = emptyCache();
+    caches.set(key, cache);
+  }
   return cache;
 }
 
-export async function refreshCache(
-  type: "categories" | "tags" | "manualAccounts" | "plaidAccounts"
+/** Reload entities now, e.g. after a mutation or on request. */
+export async function refreshCache(...entities: CacheEntity[]): Promise<void> {
+  await loadEntities(getCache(), entities);
+}
+
+/** Load state of each entity, for status output. */
+export function cacheHealth(): CacheHealth[] {
+  const cache = getCache();
+  return CACHE_ENTITIES.map((entity) => {
+    const { loadedAt, error } = cache.state[entity];
+    return {
+      entity,
+      size: entitySize(cache, entity),
+      loaded: loadedAt !== null,
+      loadedAt: loadedAt !== null ? new Date(loadedAt).toISOString() : undefined,
+      ttlSeconds: ttlSeconds[entity],
+      error: error ?? undefined,
+    };
+  });
+}
+
+/**
+ * Fetch entities in parallel. A failure is recorded on that entity and
+ * keeps whatever it held before, so one bad endpoint never blanks the rest.
+ * `keepMissed` is for reloads caused by unknown ids, which must not make
+ * those ids eligible for another refetch.
+ */
+async function loadEntities(
+  cache: Cache,
+  entities: CacheEntity[],
+  { keepMissed = false } = {}
 ): Promise<void> {
-  const c = getCache();
-  switch (type) {
-    case "categories":
-      c.categories = await fetchCategories();
-      break;
-    case "tags":
-      c.tags = await fetchTags();
-      break;
-    case "manualAccounts":
-      c.manualAccounts = await fetchManualAccounts();
-      break;
-    case "plaidAccounts":
-      c.plaidAccounts = await fetchPlaidAccounts();
-      break;
+  // Marked up front so a slow background refresh is not started twice
+  const started = Date.now();
+  for (const entity of entities) cache.state[entity].lastAttempt = started;
+
+  const results = await Promise.allSettled(entities.map((e) => FETCHERS[e]()));
+  const now = Date.now();
+  results.forEach((result, i) => {
+    const entity = entities[i];
+    const state = cache.state[entity];
+    if (result.status === "fulfilled") {
+      Object.assign(cache, { [entity]: result.value });
+      state.loadedAt = now;
+      state.error = null;
+      if (!keepMissed) state.missed.clear();
+    } else {
+      const reason = result.reason;
+      state.error = reason instanceof Error ? reason.message : String(reason);
+    }
+  });
+}
+
+function collectReferences(
+  value: unknown,
+  found: (entity: Exclude<CacheEntity, "user">, id: number) => void
+): void {
+  if (Array.isArray(value)) {
+    for (const item of value) collectReferences(item, found);
+    return;
+  }
+  if (value === null || typeof value !== "object") return;
+  for (const [key, field] of Object.entries(value)) {
+    const entity = REFERENCE_FIELDS[key];
+    if (entity) {
+      for (const id of [field].flat(2)) {
+        if (typeof id === "number") found(entity, id);
+      }
+    } else {
+      collectReferences(field, found);
+    }
   }
 }
 
+function entitySize(cache: Cache, entity: CacheEntity): number {
+  const value = cache[entity];
+  if (value instanceof Map) return value.size;
+  return value ? 1 : 0;
+}
+
+function emptyCache(): Cache {
+  const state = () => ({ loadedAt: null, error: null, lastAttempt: 0, missed: new Set<number>() });
+  return {
+    categories: new Map(),
+    tags: new Map(),
+    manualAccounts: new Map(),
+    plaidAccounts: new Map(),
+    user: null,
+    state: {
+      categories: state(),
+      tags: state(),
+      manualAccounts: state(),
+      plaidAccounts: state(),
+      user: state(),
+    },
+  };
+}
+
+/**
+ * LUNCHMONEY_CACHE_TTL overrides how long entities are cached, in seconds:
+ * one number for all of them, or per entity as `categories=60,tags=120`.
+ */
+function parseTtls(setting: string | undefined): Record<CacheEntity, number> {
+  const ttls = { ...DEFAULT_TTL_SECONDS };
+  if (!setting?.trim()) return ttls;
+
+  for (const part of setting.split(",")) {
+    const [name, value] = part.includes("=") ? part.split("=") : [undefined, part];
+    const seconds = Number(value?.trim());
+    const entity = name === undefined ? undefined : CACHE_ENTITY_KEYS[name.trim()];
+    if (!Number.isFinite(seconds) || seconds <= 0 || (name !== undefined && !entity)) {
+      throw new Error(
+        `Invalid LUNCHMONEY_CACHE_TTL entry "${part.trim()}". Use seconds, e.g. "600", or per entity: ${Object.keys(CACHE_ENTITY_KEYS).map((k) => `${k}=600`).join(",")}.`
+      );
+    }
+    if (entity) ttls[entity] = seconds;
+    else for (const e of CACHE_ENTITIES) ttls[e] = seconds;
+  }
+  return ttls;
+}
+
 export function categoryName(id: number | null): string {
   if (id === null) return "Uncategorized";
   return getCache().categories.get(id)?.name ?? `Category #${id}`;
@@ -80,13 +329,18 @@ export function accountName(
   return "Cash";
 }
 
+/** The current profile's user info, if it has loaded. */
+export function cachedUser(): User | null {
+  return getCache().user;
+}
+
 // --- Fetchers ---
 
 async function fetchCategories(): Promise<Map<number, Category>> {
   const { data, error, response } = await api.GET("/categories", {
     params: { query: { format: "flattened" } },
   });
-  if (error) handleError(response.status, error);
+  if (error) handleError(response, error);
   const map = new Map<number, Category>();
   for (const cat of data?.categories ?? []) {
     map.set(cat.id, cat);
@@ -96,7 +350,7 @@ async function fetchCategories(): Promise<Map<number, Category>> {
 
 async function fetchTags(): Promise<Map<number, Tag>> {
   const { data, error, response } = await api.GET("/tags");
-  if (error) handleError(response.status, error);
+  if (error) handleError(response, error);
   const map = new Map<number, Tag>();
   for (const tag of (data as { tags?: Tag[] })?.tags ?? []) {
     map.set(tag.id, tag);
@@ -106,7 +360,7 @@ async function fetchTags(): Promise<Map<number, Tag>> {
 
 async function fetchManualAccounts(): Promise<Map<number, ManualAccount>> {
   const { data, error, response } = await api.GET("/manual_accounts");
-  if (error) handleError(response.status, error);
+  if (error) handleError(response, error);
   const map = new Map<number, ManualAccount>();
   for (const acct of (data as { manual_accounts?: ManualAccount[] })
     ?.manual_accounts ?? []) {
@@ -117,7 +371,7 @@ async function fetchManualAccounts(): Promise<Map<number, ManualAccount>> {
 
 async function fetchPlaidAccounts(): Promise<Map<number, PlaidAccount>> {
   const { data, error, response } = await api.GET("/plaid_accounts");
-  if (error) handleError(response.status, error);
+  if (error) handleError(response, error);
   const map = new Map<number, PlaidAccount>();
   for (const acct of (data as { plaid_accounts?: PlaidAccount[] })
     ?.plaid_accounts ?? []) {
@@ -125,3 +379,9 @@ async function fetchPlaidAccounts(): Promise<Map<number, PlaidAccount>> {
   }
   return map;
 }
+
+async function fetchUser(): Promise<User> {
+  const { data, error, response } = await api.GET("/me");
+  if (error) handleError(response, error);
+  return data as User;
+}
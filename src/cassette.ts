@@ -0,0 +1,148 @@
+import { createHash } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync, existsSync } from "node:fs";
+import { join } from "node:path";
+
+export type CassetteMode = "record" | "replay";
+
+type Transport = (request: Request) => Promise<Response>;
+
+/** Transport that also knows which profile (or "session") sent the request. */
+export type ProfileTransport = (request: Request, profile: string) => Promise<Response>;
+
+interface RecordedRequest {
+  /** Profile the request was made for; each profile has its own fixtures */
+  profile: string;
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+interface CassetteFile {
+  request: RecordedRequest;
+  responses: RecordedResponse[];
+}
+
+const REDACTED_HEADERS = new Set(["authorization", "cookie", "set-cookie"]);
+// Describe the original wire format, not the decoded body we store
+const DROPPED_HEADERS = new Set([
+  "content-length",
+  "content-encoding",
+  "transfer-encoding",
+]);
+
+/**
+ * Wrap a transport so every request/response pair is written to (record) or
+ * answered from (replay) JSON fixtures in `dir`. Repeated identical requests
+ * are stored in order, so a session that reads, writes, then reads again
+ * replays exactly; once a sequence is exhausted its last response repeats.
+ * Fixtures are keyed by profile too, since profiles see different budgets.
+ */
+export function withCassette(
+  mode: CassetteMode,
+  dir: string,
+  transport: Transport
+): ProfileTransport {
+  const calls = new Map<string, number>();
+
+  return async (request, profile) => {
+    const recorded = await describeRequest(request, profile);
+    const file = join(dir, fixtureName(recorded));
+    const index = calls.get(file) ?? 0;
+    calls.set(file, index + 1);
+
+    if (mode === "replay") {
+      if (!existsSync(file)) {
+        throw new Error(
+          `No recorded response for ${recorded.method} ${recorded.url} in ${dir}. Record it first with LUNCHMONEY_CASSETTE=record.`
+        );
+      }
+      const cassette = JSON.parse(readFileSync(file, "utf8")) as CassetteFile;
+      const recordedResponse =
+        cassette.responses[Math.min(index, cassette.responses.length - 1)];
+      return toResponse(recordedResponse);
+    }
+
+    const response = await transport(request);
+    // Each recording session starts its fixtures from scratch
+    const cassette: CassetteFile =
+      index > 0 && existsSync(file)
+        ? (JSON.parse(readFileSync(file, "utf8")) as CassetteFile)
+        : { request: recorded, responses: [] };
+    cassette.responses.push(await describeResponse(response.clone()));
+    mkdirSync(dir, { recursive: true });
+    writeFileSync(file, JSON.stringify(cassette, null, 2) + "\n");
+    return response;
+  };
+}
+
+async function describeRequest(request: Request, profile: string): Promise<RecordedRequest> {
+  const url = new URL(request.url);
+  url.searchParams.sort();
+  return {
+    profile,
+    method: request.method,
+    // Origin and base path are dropped so fixtures replay against any base URL
+    url: `${url.pathname.replace(/^.*?\/v2(?=\/)/, "")}${url.search}`,
+    headers: redact(request.headers),
+    body: parseBody(await request.clone().text()),
+  };
+}
+
+async function describeResponse(response: Response): Promise<RecordedResponse> {
+  return {
+    status: response.status,
+    headers: redact(response.headers),
+    body: parseBody(await response.text()),
+  };
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  const body =
+    recorded.body === null
+      ? null
+      : typeof recorded.body === "string"
+        ? recorded.body
+        : JSON.stringify(recorded.body);
+  return new Response(body, {
+    status: recorded.status,
+    headers: recorded.headers,
+  });
+}
+
+function fixtureName(request: RecordedRequest): string {
+  const hash = createHash("sha256")
+    .update(`${request.profile} ${request.method} ${request.url} ${JSON.stringify(request.body)}`)
+    .digest("hex")
+    .slice(0, 12);
+  const path = request.url
+    .split("?")[0]
+    .replace(/[^a-zA-Z0-9]+/g, "_")
+    .replace(/^_|_$/g, "");
+  const profile = request.profile.replace(/[^a-zA-Z0-9]+/g, "_");
+  return `${profile}_${request.method}_${path}_${hash}.json`;
+}
+
+function redact(headers: Headers): Record<string, string> {
+  const out: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    if (DROPPED_HEADERS.has(key.toLowerCase())) return;
+    out[key] = REDACTED_HEADERS.has(key.toLowerCase()) ? "[REDACTED]" : value;
+  });
+  return out;
+}
+
+function parseBody(text: string): unknown {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
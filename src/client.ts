@@ -1,57 +1,364 @@
-import createClient from "openapi-fetch";
+import createClient, { type Client } from "openapi-fetch";
 import type { paths } from "./types.js";
+import {
+  currentContext,
+  DEFAULT_PROFILE,
+  SESSION_TOKEN_HEADER,
+} from "./context.js";
+import { RequestScheduler, type SchedulerStats } from "./scheduler.js";
+import { createFakeHandler } from "./fake/server.js";
+import { withCassette, type CassetteMode } from "./cassette.js";
 
-const token = process.env.LUNCHMONEY_TOKEN;
+const baseUrl = process.env.LUNCHMONEY_API_URL ?? "https://api.lunchmoney.dev/v2";
 
-export function assertToken(): void {
-  if (!token) {
-    console.error(
-      "LUNCHMONEY_TOKEN is not set. Pass it as an environment variable."
+// Serve requests from the bundled in-memory fake API instead of the network
+export const useFake = ["1", "true"].includes(process.env.LUNCHMONEY_FAKE ?? "");
+
+// Record traffic to, or replay it from, JSON fixtures ("cassettes")
+const cassetteMode = parseCassetteMode(process.env.LUNCHMONEY_CASSETTE);
+const cassetteDir = process.env.LUNCHMONEY_CASSETTE_DIR ?? "cassettes";
+export const replaying = cassetteMode === "replay";
+
+function parseCassetteMode(value: string | undefined): CassetteMode | undefined {
+  if (!value) return undefined;
+  if (value === "record" || value === "replay") return value;
+  console.error(`Ignoring invalid LUNCHMONEY_CASSETTE "${value}"; expected "record" or "replay".`);
+  return undefined;
+}
+
+const baseTransport = useFake ? createFakeHandler() : fetch;
+const cassette = cassetteMode ? withCassette(cassetteMode, cassetteDir, baseTransport) : undefined;
+
+function transport(request: Request, profile: string): Promise<Response> {
+  return cassette ? cassette(request, profile) : baseTransport(request);
+}
+
+export function logTransportMode(): void {
+  if (cassetteMode === "replay") {
+    console.error(`Replaying API traffic from ${cassetteDir} — no network access.`);
+  } else if (cassetteMode === "record") {
+    console.error(`Recording API traffic to ${cassetteDir} (tokens redacted).`);
+  }
+  if (useFake && !replaying) {
+    console.error("LUNCHMONEY_FAKE is set — using the in-memory fake API with demo data.");
+  }
+}
+
+// --- Scheduling ---
+
+const scheduler = new RequestScheduler({
+  maxConcurrency: envNumber("LUNCHMONEY_MAX_CONCURRENCY", 4),
+  requestsPerSecond: envNumber("LUNCHMONEY_MAX_RPS", 5),
+});
+
+export function schedulerStats(): SchedulerStats {
+  return scheduler.stats();
+}
+
+function scheduledFetch(request: Request, profile: string): Promise<Response> {
+  // Identical concurrent GETs (same path + query) share one network call
+  if (request.method === "GET") {
+    // Keyed by token too, so profiles never share each other's responses
+    return scheduler.coalesce(
+      `${request.headers.get("Authorization")} ${request.url}`,
+      () => fetchWithRetry(request, profile),
+      shareResponse
     );
-    process.exit(1);
   }
+  return fetchWithRetry(request, profile);
+}
+
+function shareResponse(response: Response): Response {
+  const copy = response.clone();
+  attempts.set(copy, attempts.get(response) ?? 1);
+  return copy;
+}
+
+// --- Retry ---
+
+const retryConfig = {
+  maxAttempts: envNumber("LUNCHMONEY_MAX_ATTEMPTS", 4),
+  deadlineMs: envNumber("LUNCHMONEY_RETRY_DEADLINE_MS", 30_000),
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+};
+
+// Only methods that are safe to repeat: GETs and full-field PUTs.
+const RETRYABLE_METHODS = new Set(["GET", "PUT"]);
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+
+// Attempts spent on each final response, read back by handleError.
+const attempts = new WeakMap<Response, number>();
+
+async function fetchWithRetry(request: Request, profile: string): Promise<Response> {
+  const started = Date.now();
+  const retryable = RETRYABLE_METHODS.has(request.method);
+
+  for (let attempt = 1; ; attempt++) {
+    const response = await scheduler.schedule(() => transport(request.clone(), profile));
+    attempts.set(response, attempt);
+
+    if (
+      !retryable ||
+      !RETRYABLE_STATUSES.has(response.status) ||
+      attempt >= retryConfig.maxAttempts
+    ) {
+      return response;
+    }
+
+    const delay = retryDelay(response, attempt);
+    if (Date.now() - started + delay > retryConfig.deadlineMs) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+function retryDelay(response: Response, attempt: number): number {
+  const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+  if (retryAfter !== null) return retryAfter;
+
+  const backoff = Math.min(
+    retryConfig.maxDelayMs,
+    retryConfig.baseDelayMs * 2 ** (attempt - 1)
+  );
+  // Jitter keeps parallel callers from retrying in lockstep
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
 }
 
-export const api = createClient<paths>({
-  baseUrl: "https://api.lunchmoney.dev/v2",
-  headers: {
-    Authorization: `Bearer ${token}`,
-    "Content-Type": "application/json",
+/** Client for one profile; `profile` only keys its record/replay fixtures. */
+export function createApiClient(token: string, profile: string): Client<paths> {
+  return createClient<paths>({
+    baseUrl,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    fetch: (request) => scheduledFetch(request, profile),
+  });
+}
+
+/** Client for the profile of the running tool call. */
+export const api = new Proxy({} as Client<paths>, {
+  get(_target, prop) {
+    const client = currentContext().client;
+    const value = client[prop as keyof Client<paths>];
+    return typeof value === "function" ? value.bind(client) : value;
   },
 });
 
+/** Structured description of a failed request, as surfaced to MCP clients. */
+export interface ErrorReport {
+  status?: number;
+  code: string;
+  message: string;
+  field?: string;
+  api_message?: string;
+  suggestion?: string;
+  request_id?: string;
+  attempts?: number;
+  errors?: { message: string; field?: string }[];
+  dependents?: Record<string, number>;
+  /** Entities a name argument could have meant */
+  candidates?: string[];
+}
+
+export interface ApiErrorDetails {
+  attempts?: number;
+  code?: string;
+  field?: string;
+  apiMessage?: string;
+  suggestion?: string;
+  requestId?: string;
+  errors?: { message: string; field?: string }[];
+}
+
 export class ApiError extends Error {
+  public attempts: number;
+
   constructor(
     public status: number,
-    message: string
+    message: string,
+    public details: ApiErrorDetails = {}
   ) {
     super(message);
     this.name = "ApiError";
+    this.attempts = details.attempts ?? 1;
+  }
+
+  toReport(): ErrorReport {
+    const d = this.details;
+    return {
+      status: this.status,
+      code: d.code ?? statusCode(this.status),
+      message: this.message,
+      field: d.field,
+      api_message: d.apiMessage,
+      suggestion: d.suggestion,
+      request_id: d.requestId,
+      attempts: this.attempts > 1 ? this.attempts : undefined,
+      errors: d.errors && d.errors.length > 1 ? d.errors : undefined,
+    };
   }
 }
 
-export function handleError(status: number, body: unknown): never {
-  const parsed = body as { message?: string; errors?: { errMsg: string }[] };
+export function handleError(response: Response, body: unknown): never {
+  const status = response.status;
+  const tries = attempts.get(response) ?? 1;
+  const parsed = body as {
+    message?: string;
+    code?: string;
+    error_code?: string;
+    errors?: ({ errMsg: string } & Record<string, unknown>)[];
+  };
+  const errors = (parsed?.errors ?? []).map((e) => ({
+    message: e.errMsg,
+    field: errorField(e),
+  }));
   const detail =
     parsed?.errors?.map((e) => e.errMsg).join("; ") ?? parsed?.message;
+  const field = errors.find((e) => e.field)?.field;
+  const details: ApiErrorDetails = {
+    attempts: tries,
+    code: parsed?.code ?? parsed?.error_code,
+    field,
+    apiMessage: detail,
+    suggestion: suggestFix(status, detail, field),
+    requestId: REQUEST_ID_HEADERS.map((h) => response.headers.get(h)).find(
+      (v) => v !== null
+    ) ?? undefined,
+    errors,
+  };
+  const retried =
+    tries > 1 ? ` (gave up after ${tries} attempts, last status ${status})` : "";
 
   switch (status) {
     case 401:
       throw new ApiError(
         401,
-        "API token invalid or expired. Check LUNCHMONEY_TOKEN."
+        `API token invalid or expired. Check ${tokenSource()}.`,
+        details
       );
     case 429:
-      throw new ApiError(429, "Rate limit reached. Try again in a moment.");
+      throw new ApiError(
+        429,
+        `Rate limit reached. Try again in a moment.${retried}`,
+        details
+      );
     case 404:
-      throw new ApiError(404, detail ?? "Resource not found.");
+      throw new ApiError(404, detail ?? "Resource not found.", details);
     default:
       if (status >= 500) {
         throw new ApiError(
           status,
-          "Lunch Money API error. Try again later."
+          `Lunch Money API error. Try again later.${retried}`,
+          details
         );
       }
-      throw new ApiError(status, detail ?? `Request failed (${status}).`);
+      throw new ApiError(status, detail ?? `Request failed (${status}).`, details);
+  }
+}
+
+// --- Error details ---
+
+function tokenSource(): string {
+  const { profile, session } = currentContext();
+  if (session) return `the ${SESSION_TOKEN_HEADER} header sent when the session started`;
+  return profile === DEFAULT_PROFILE
+    ? "LUNCHMONEY_TOKEN"
+    : `the token of profile "${profile}"`;
+}
+
+const REQUEST_ID_HEADERS = ["x-request-id", "request-id", "x-amzn-requestid", "cf-ray"];
+
+// Keys the API (or its validator) uses to name the offending parameter
+const FIELD_KEYS = ["field", "param", "parameter", "property", "path", "instancePath", "key"];
+
+function errorField(error: Record<string, unknown>): string | undefined {
+  for (const key of FIELD_KEYS) {
+    const value = error[key];
+    if (typeof value === "string" && value) {
+      return value.replace(/^\/(body|query|params)\//, "").replace(/\//g, ".");
+    }
+  }
+  // Fall back to messages like `Invalid category_id: ...` or `date is required`
+  const message = String(error.errMsg ?? "");
+  const match =
+    /\b(?:invalid|unknown|missing)\s+([a-z_]+(?:\[\d+\])?(?:\.[a-z_]+)*)/i.exec(message) ??
+    /^([a-z_]+(?:\[\d+\])?(?:\.[a-z_]+)*)(?::| is | must | cannot )/.exec(message);
+  return match?.[1];
+}
+
+function suggestFix(
+  status: number,
+  message: string | undefined,
+  field: string | undefined
+): string | undefined {
+  const text = `${field ?? ""} ${message ?? ""}`.toLowerCase();
+  const arg = field ? `\`${field}\`` : "the argument";
+
+  if (status === 401) {
+    return `Generate a new token at https://my.lunchmoney.app/developers and update ${tokenSource()}.`;
+  }
+  if (status === 429) {
+    return "Wait a moment before retrying, or lower LUNCHMONEY_MAX_RPS for bulk work.";
+  }
+  if (status >= 500) {
+    return "This is a Lunch Money server problem. Retry later; include the request ID if reporting it.";
+  }
+  if (/date/.test(text) && /(format|yyyy-mm-dd|invalid)/.test(text)) {
+    return `Pass ${arg} as a YYYY-MM-DD date, e.g. 2026-03-05.`;
+  }
+  if (/(split|child_transactions)/.test(text) && /(add up|sum|total)/.test(text)) {
+    return "Adjust the split amounts so they add up exactly to the parent transaction amount.";
   }
+  if (/category/.test(text) && /group/.test(text)) {
+    return `Use a regular category for ${arg}, not a category group. Call list_categories to see which is which.`;
+  }
+  if (/category/.test(text) && /(not exist|not found|invalid|unknown)/.test(text)) {
+    return `Call list_categories and pass an existing category ID as ${arg}.`;
+  }
+  if (/tag/.test(text) && /(not exist|not found|invalid|unknown)/.test(text)) {
+    return `Call list_tags and pass existing tag IDs as ${arg}.`;
+  }
+  if (/account/.test(text) && /(not exist|not found|invalid|unknown)/.test(text)) {
+    return `Call get_accounts and pass an existing account ID as ${arg}.`;
+  }
+  if (/already exists|already used/.test(text)) {
+    return `Choose a different value for ${arg}, or update the existing item instead.`;
+  }
+  if (status === 404) {
+    return "Check the ID — the item may have been deleted or belong to another budget.";
+  }
+  if (field) {
+    return `Fix ${arg} and try again.`;
+  }
+  return undefined;
+}
+
+function statusCode(status: number): string {
+  if (status === 400) return "invalid_request";
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not_found";
+  if (status === 409) return "conflict";
+  if (status === 422) return "unprocessable";
+  if (status === 429) return "rate_limited";
+  if (status >= 500) return "server_error";
+  return "request_failed";
 }
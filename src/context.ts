@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Client } from "openapi-fetch";
+import type { paths } from "./types.js";
+
+/** Name of the profile built from LUNCHMONEY_TOKEN. */
+export const DEFAULT_PROFILE = "default";
+
+/** HTTP header carrying a session's own Lunch Money token at initialization. */
+export const SESSION_TOKEN_HEADER = "X-Lunchmoney-Token";
+
+/** The budget a tool call acts on. */
+export interface ApiContext {
+  /** Cache key: the profile name, or `session:<id>` for HTTP sessions */
+  key: string;
+  profile: string;
+  client: Client<paths>;
+  /** HTTP session id, when the session brought its own Lunch Money token */
+  session?: string;
+}
+
+const storage = new AsyncLocalStorage<ApiContext>();
+let defaultContext: (() => ApiContext) | null = null;
+
+export function setDefaultContext(provider: () => ApiContext): void {
+  defaultContext = provider;
+}
+
+export function runInContext<T>(context: ApiContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/** The current context if it is bound to a session's own token. */
+export function sessionContext(): ApiContext | undefined {
+  const context = storage.getStore();
+  return context?.session ? context : undefined;
+}
+
+/** Context of the running tool call, or the default profile outside one. */
+export function currentContext(): ApiContext {
+  const context = storage.getStore() ?? defaultContext?.();
+  if (!context) throw new Error("No Lunch Money profile configured.");
+  return context;
+}
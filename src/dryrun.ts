@@ -0,0 +1,97 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { ensureReferenced } from "./cache.js";
+import { formatDryRun } from "./format.js";
+
+/** Description of the `dry_run` argument shared by all mutating tools. */
+export const DRY_RUN_DESCRIPTION =
+  "Preview the changes as a before/after diff without saving anything";
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/** One entity a mutating tool would create, change or remove. */
+export interface EntityChange {
+  /** e.g. "transaction", "category", "tag", "manual_account" */
+  entity: string;
+  action: "create" | "update" | "delete";
+  id?: number;
+  /** Short description of the entity as it is now */
+  label?: string;
+  /** Currency for rendering amount fields */
+  currency?: string;
+  fields: FieldChange[];
+}
+
+export interface DryRunPreview {
+  summary: string;
+  changes: EntityChange[];
+  warnings: string[];
+}
+
+type Extra = Pick<EntityChange, "id" | "label" | "currency">;
+
+export function createChange(
+  entity: string,
+  values: Record<string, unknown>,
+  extra: Extra = {}
+): EntityChange {
+  const fields = Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, after]) => ({ field, before: undefined, after }));
+  return { entity, action: "create", ...extra, fields };
+}
+
+/** Fields of `updates` whose value differs from `current`. */
+export function updateChange(
+  entity: string,
+  current: Record<string, unknown>,
+  updates: Record<string, unknown>,
+  extra: Extra = {}
+): EntityChange {
+  const fields = Object.entries(updates)
+    .filter(([field, after]) => after !== undefined && !sameValue(field, current[field], after))
+    .map(([field, after]) => ({ field, before: current[field] ?? null, after }));
+  return { entity, action: "update", ...extra, fields };
+}
+
+export function deleteChange(
+  entity: string,
+  current: Record<string, unknown>,
+  keys: string[],
+  extra: Extra = {}
+): EntityChange {
+  const fields = keys
+    .filter((field) => !isEmpty(current[field]))
+    .map((field) => ({ field, before: current[field], after: undefined }));
+  return { entity, action: "delete", ...extra, fields };
+}
+
+export async function dryRunResult(preview: DryRunPreview): Promise<CallToolResult> {
+  // Field values may name a category or tag created since the cache loaded
+  await ensureReferenced(
+    preview.changes.map((change) =>
+      Object.fromEntries(change.fields.map((f) => [f.field, [f.before, f.after]]))
+    )
+  );
+  return {
+    content: [{ type: "text", text: formatDryRun(preview) }],
+    structuredContent: { dry_run: true, ...preview },
+  };
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (Array.isArray(value) && value.length === 0);
+}
+
+function sameValue(field: string, before: unknown, after: unknown): boolean {
+  if (field === "amount" || field === "balance") {
+    return Number(before) === Number(after);
+  }
+  if (Array.isArray(before) && Array.isArray(after)) {
+    return JSON.stringify([...before].sort()) === JSON.stringify([...after].sort());
+  }
+  return JSON.stringify(before ?? null) === JSON.stringify(after ?? null);
+}
@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+
+import { serveFake } from "./server.js";
+
+const port = Number(process.env.PORT ?? 4010);
+const host = process.env.HOST ?? "127.0.0.1";
+
+serveFake(port, host).on("listening", () => {
+  console.error(
+    `Fake Lunch Money API listening on http://${host}:${port}/v2 — point LUNCHMONEY_API_URL here.`
+  );
+});
@@ -0,0 +1,505 @@
+import type { components } from "../types.js";
+
+type User = components["schemas"]["userObject"];
+type Category = components["schemas"]["categoryObject"];
+type Tag = components["schemas"]["tagObject"];
+type ManualAccount = components["schemas"]["manualAccountObject"];
+type PlaidAccount = components["schemas"]["plaidAccountObject"];
+type Transaction = components["schemas"]["transactionObject"];
+type Recurring = components["schemas"]["recurringObject"];
+
+export interface FakeRule {
+  payeeContains: string;
+  categoryId: number;
+}
+
+export interface FakeStore {
+  user: User;
+  categories: Map<number, Category>;
+  tags: Map<number, Tag>;
+  manualAccounts: Map<number, ManualAccount>;
+  plaidAccounts: Map<number, PlaidAccount>;
+  transactions: Map<number, Transaction>;
+  recurring: Map<number, Recurring>;
+  /** Monthly budget per category id, in the primary currency */
+  budgets: Map<number, number>;
+  rules: FakeRule[];
+  nextId: {
+    category: number;
+    tag: number;
+    manualAccount: number;
+    transaction: number;
+  };
+}
+
+/** Conversion rates to the primary currency (USD). */
+export const RATES: Record<string, number> = {
+  usd: 1,
+  eur: 1.08,
+  gbp: 1.27,
+  cad: 0.73,
+};
+
+export function toBase(amount: number, currency: string): number {
+  return Math.round(amount * (RATES[currency] ?? 1) * 100) / 100;
+}
+
+export function formatApiAmount(amount: number): string {
+  return amount.toFixed(4);
+}
+
+export function isoDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+export function timestamp(date?: string): string {
+  return date ? `${date}T12:00:00.000Z` : new Date().toISOString();
+}
+
+// Small deterministic PRNG so every run of the fake server sees the same data
+function mulberry32(seed: number): () => number {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// --- Seed definitions ---
+
+interface CategorySeed {
+  id: number;
+  name: string;
+  group?: number;
+  isGroup?: boolean;
+  isIncome?: boolean;
+  excluded?: boolean;
+  budget?: number;
+}
+
+const CATEGORY_SEEDS: CategorySeed[] = [
+  { id: 1001, name: "Food", isGroup: true },
+  { id: 1002, name: "Groceries", group: 1001, budget: 650 },
+  { id: 1003, name: "Restaurants", group: 1001, budget: 300 },
+  { id: 1004, name: "Coffee Shops", group: 1001, budget: 60 },
+  { id: 1010, name: "Home", isGroup: true },
+  { id: 1011, name: "Rent", group: 1010, budget: 2100 },
+  { id: 1012, name: "Utilities", group: 1010, budget: 220 },
+  { id: 1013, name: "Household Supplies", group: 1010, budget: 80 },
+  { id: 1020, name: "Transportation", isGroup: true },
+  { id: 1021, name: "Gas", group: 1020, budget: 160 },
+  { id: 1022, name: "Public Transit", group: 1020, budget: 90 },
+  { id: 1023, name: "Rideshare", group: 1020, budget: 50 },
+  { id: 1030, name: "Entertainment", budget: 120 },
+  { id: 1031, name: "Shopping", budget: 250 },
+  { id: 1032, name: "Travel", budget: 200 },
+  { id: 1033, name: "Health & Fitness", budget: 110 },
+  { id: 1034, name: "Subscriptions", budget: 45 },
+  { id: 1040, name: "Salary", isIncome: true },
+  { id: 1041, name: "Interest", isIncome: true },
+  { id: 1050, name: "Transfers", excluded: true },
+];
+
+const TAG_SEEDS: [number, string, string | null][] = [
+  [501, "vacation", "Trips and holidays"],
+  [502, "reimbursable", "Expenses to claim back from work"],
+  [503, "gift", null],
+  [504, "business", "Side business expenses"],
+];
+
+interface MerchantSeed {
+  payee: string;
+  original: string;
+  category: number;
+  min: number;
+  max: number;
+  /** Average occurrences per month */
+  perMonth: number;
+  tag?: number;
+}
+
+const MERCHANTS: MerchantSeed[] = [
+  { payee: "Whole Foods", original: "WHOLEFDS MKT #10234", category: 1002, min: 35, max: 180, perMonth: 4 },
+  { payee: "Trader Joe's", original: "TRADER JOE'S #552", category: 1002, min: 20, max: 95, perMonth: 3 },
+  { payee: "Safeway", original: "SAFEWAY STORE 1423", category: 1002, min: 15, max: 120, perMonth: 2 },
+  { payee: "Chipotle", original: "CHIPOTLE 2291", category: 1003, min: 11, max: 32, perMonth: 2 },
+  { payee: "Nopa", original: "SQ *NOPA SAN FRANCISCO", category: 1003, min: 45, max: 160, perMonth: 1 },
+  { payee: "Blue Bottle Coffee", original: "BLUE BOTTLE COFFEE", category: 1004, min: 4.5, max: 12, perMonth: 6 },
+  { payee: "Starbucks", original: "STARBUCKS STORE 09921", category: 1004, min: 3.75, max: 9.5, perMonth: 3 },
+  { payee: "Target", original: "TARGET 00012345", category: 1013, min: 12, max: 85, perMonth: 1.5 },
+  { payee: "Shell", original: "SHELL OIL 57442", category: 1021, min: 38, max: 72, perMonth: 2 },
+  { payee: "Clipper", original: "CLIPPER SERVICE", category: 1022, min: 20, max: 40, perMonth: 2 },
+  { payee: "Uber", original: "UBER *TRIP", category: 1023, min: 9, max: 42, perMonth: 1.5 },
+  { payee: "AMC Theatres", original: "AMC 1001 ONLINE", category: 1030, min: 14, max: 48, perMonth: 0.8 },
+  { payee: "Amazon", original: "AMZN Mktp US*2K4L1", category: 1031, min: 9, max: 220, perMonth: 3 },
+  { payee: "Home Depot", original: "THE HOME DEPOT #1884", category: 1013, min: 8, max: 140, perMonth: 0.7, tag: 504 },
+  { payee: "CVS Pharmacy", original: "CVS/PHARMACY #04412", category: 1033, min: 6, max: 55, perMonth: 1 },
+];
+
+interface RecurringSeed {
+  id: number;
+  payee: string;
+  amount: number;
+  category: number;
+  day: number;
+  account: { manual?: number; plaid?: number };
+  description: string | null;
+}
+
+const RECURRING_SEEDS: RecurringSeed[] = [
+  { id: 701, payee: "Mission Properties", amount: 2100, category: 1011, day: 1, account: { manual: 2002 }, description: "Monthly rent" },
+  { id: 702, payee: "PG&E", amount: 0, category: 1012, day: 12, account: { plaid: 3002 }, description: "Electric & gas" },
+  { id: 703, payee: "Netflix", amount: 15.49, category: 1034, day: 8, account: { plaid: 3001 }, description: null },
+  { id: 704, payee: "Spotify", amount: 10.99, category: 1034, day: 15, account: { plaid: 3001 }, description: null },
+  { id: 705, payee: "Equinox", amount: 65, category: 1033, day: 3, account: { plaid: 3001 }, description: "Gym membership" },
+  { id: 706, payee: "Acme Corp Payroll", amount: -4250, category: 1040, day: 15, account: { plaid: 3002 }, description: "Salary" },
+];
+
+// --- Seeding ---
+
+export function seedStore(today: Date = new Date()): FakeStore {
+  const random = mulberry32(20240101);
+  const between = (min: number, max: number) =>
+    Math.round((min + random() * (max - min)) * 100) / 100;
+
+  const user: User = {
+    name: "Alex Demo",
+    email: "alex@example.com",
+    id: 18001,
+    account_id: 9001,
+    budget_name: "Demo Household",
+    primary_currency: "usd",
+    api_key_label: "fake-server",
+  };
+
+  const created = timestamp("2023-01-01");
+
+  const categories = new Map<number, Category>();
+  const budgets = new Map<number, number>();
+  CATEGORY_SEEDS.forEach((seed, order) => {
+    categories.set(seed.id, {
+      id: seed.id,
+      name: seed.name,
+      description: null,
+      is_income: seed.isIncome ?? false,
+      exclude_from_budget: seed.excluded ?? false,
+      exclude_from_totals: seed.excluded ?? false,
+      updated_at: created,
+      created_at: created,
+      group_id: seed.group ?? null,
+      is_group: seed.isGroup ?? false,
+      archived: false,
+      archived_at: null,
+      order,
+      collapsed: false,
+    });
+    if (seed.budget !== undefined) budgets.set(seed.id, seed.budget);
+  });
+
+  const tags = new Map<number, Tag>();
+  for (const [id, name, description] of TAG_SEEDS) {
+    tags.set(id, {
+      id,
+      name,
+      description,
+      text_color: null,
+      background_color: null,
+      updated_at: created,
+      created_at: created,
+      archived: false,
+      archived_at: null,
+    });
+  }
+
+  const manualAccounts = new Map<number, ManualAccount>();
+  const manual = (
+    id: number,
+    name: string,
+    type: ManualAccount["type"],
+    subtype: string | null,
+    balance: number,
+    currency: string,
+    institution: string | null
+  ) => {
+    manualAccounts.set(id, {
+      id,
+      name,
+      institution_name: institution,
+      display_name: null,
+      type,
+      subtype,
+      balance: formatApiAmount(balance),
+      currency,
+      to_base: toBase(balance, currency),
+      balance_as_of: timestamp(isoDate(today)),
+      status: "active",
+      closed_on: null,
+      external_id: null,
+      custom_metadata: null,
+      exclude_from_transactions: false,
+      created_by_name: user.name,
+      created_at: created,
+      updated_at: created,
+    });
+  };
+  manual(2001, "Cash Wallet", "cash", "wallet", 142.5, "usd", null);
+  manual(2002, "Credit Union Checking", "cash", "checking", 6830.12, "usd", "Golden Gate Credit Union");
+  manual(2003, "Euro Savings", "cash", "savings", 12450, "eur", "N26");
+  manual(2004, "Car Loan", "loan", "auto", 9875.4, "usd", "Golden Gate Credit Union");
+
+  const plaidAccounts = new Map<number, PlaidAccount>();
+  const plaid = (
+    id: number,
+    name: string,
+    type: string,
+    subtype: string,
+    mask: string,
+    balance: number,
+    limit: number | null
+  ) => {
+    plaidAccounts.set(id, {
+      id,
+      plaid_item_id: `item-${id}`,
+      date_linked: "2023-01-05",
+      linked_by_name: user.name,
+      name,
+      display_name: null,
+      type,
+      subtype,
+      mask,
+      institution_name: "Chase",
+      status: "active",
+      allow_transaction_modifications: true,
+      limit,
+      balance: formatApiAmount(balance),
+      currency: "usd",
+      to_base: balance,
+      balance_last_update: timestamp(isoDate(today)),
+      import_start_date: "2023-01-01",
+      last_import: timestamp(isoDate(today)),
+      last_fetch: timestamp(isoDate(today)),
+      plaid_last_successful_update: timestamp(isoDate(today)),
+    });
+  };
+  plaid(3001, "Chase Sapphire", "credit", "credit card", "4417", 1843.27, 15000);
+  plaid(3002, "Chase Total Checking", "depository", "checking", "0981", 8412.66, null);
+
+  const store: FakeStore = {
+    user,
+    categories,
+    tags,
+    manualAccounts,
+    plaidAccounts,
+    transactions: new Map(),
+    recurring: new Map(),
+    budgets,
+    rules: [
+      { payeeContains: "whole foods", categoryId: 1002 },
+      { payeeContains: "trader joe", categoryId: 1002 },
+      { payeeContains: "starbucks", categoryId: 1004 },
+      { payeeContains: "uber", categoryId: 1023 },
+      { payeeContains: "amazon", categoryId: 1031 },
+    ],
+    nextId: {
+      category: 1100,
+      tag: 600,
+      manualAccount: 2100,
+      transaction: 100001,
+    },
+  };
+
+  const anchor = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  const start = new Date(anchor);
+  start.setUTCMonth(start.getUTCMonth() - 12);
+
+  for (const seed of RECURRING_SEEDS) {
+    store.recurring.set(seed.id, {
+      id: seed.id,
+      description: seed.description,
+      status: "reviewed",
+      transaction_criteria: {
+        start_date: isoDate(start),
+        end_date: null,
+        granularity: "month",
+        quantity: 1,
+        anchor_date: isoDate(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), seed.day))),
+        payee: seed.payee,
+        amount: formatApiAmount(seed.amount || 95),
+        to_base: seed.amount || 95,
+        currency: "usd",
+        plaid_account_id: seed.account.plaid ?? null,
+        manual_account_id: seed.account.manual ?? null,
+      },
+      overrides: { payee: seed.payee, category_id: seed.category },
+      matches: null,
+      created_by: user.id,
+      created_at: created,
+      updated_at: created,
+      source: "manual",
+    });
+  }
+
+  const todayIso = isoDate(today);
+  const add = (t: Omit<Partial<Transaction>, "amount"> & { date: string; amount: number; payee: string }) => {
+    if (t.date > todayIso) return;
+    const id = store.nextId.transaction++;
+    const currency = t.currency ?? "usd";
+    const recent = daysBetween(t.date, todayIso) <= 10;
+    const plaidId = t.plaid_account_id ?? null;
+    store.transactions.set(id, {
+      ...t,
+      id,
+      date: t.date,
+      amount: formatApiAmount(t.amount),
+      currency,
+      to_base: toBase(t.amount, currency),
+      recurring_id: t.recurring_id ?? null,
+      payee: t.payee,
+      original_name: t.original_name ?? null,
+      category_id: t.category_id ?? null,
+      plaid_account_id: plaidId,
+      manual_account_id: t.manual_account_id ?? null,
+      external_id: t.external_id ?? null,
+      tag_ids: t.tag_ids ?? [],
+      notes: t.notes ?? null,
+      status: t.status ?? (recent ? "unreviewed" : "reviewed"),
+      is_pending: t.is_pending ?? false,
+      created_at: timestamp(t.date),
+      updated_at: timestamp(t.date),
+      is_split_parent: false,
+      split_parent_id: null,
+      is_group_parent: false,
+      group_parent_id: null,
+      plaid_metadata: null,
+      custom_metadata: null,
+      files: [],
+      source: t.source ?? (plaidId !== null ? "plaid" : "manual"),
+    });
+  };
+
+  for (let m = new Date(start); m <= anchor; m.setUTCMonth(m.getUTCMonth() + 1)) {
+    const year = m.getUTCFullYear();
+    const month = m.getUTCMonth();
+    const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    const day = (d: number) => isoDate(new Date(Date.UTC(year, month, Math.min(d, daysInMonth))));
+
+    for (const seed of RECURRING_SEEDS) {
+      const amount = seed.amount || between(70, 160);
+      add({
+        date: day(seed.day),
+        amount,
+        payee: seed.payee,
+        original_name: seed.payee.toUpperCase(),
+        category_id: seed.category,
+        recurring_id: seed.id,
+        manual_account_id: seed.account.manual,
+        plaid_account_id: seed.account.plaid,
+        source: seed.account.manual ? "recurring" : "plaid",
+      });
+    }
+
+    // Second paycheck
+    add({
+      date: day(30),
+      amount: -4250,
+      payee: "Acme Corp Payroll",
+      original_name: "ACME CORP DIRECT DEP",
+      category_id: 1040,
+      plaid_account_id: 3002,
+    });
+
+    add({
+      date: day(28),
+      amount: -between(3, 9),
+      payee: "Interest Payment",
+      original_name: "INTEREST PAID",
+      category_id: 1041,
+      plaid_account_id: 3002,
+    });
+
+    add({
+      date: day(20),
+      amount: 1500,
+      payee: "Credit Card Payment",
+      original_name: "CHASE CREDIT CRD AUTOPAY",
+      category_id: 1050,
+      plaid_account_id: 3002,
+    });
+
+    add({
+      date: day(5),
+      amount: 389.22,
+      payee: "Golden Gate Credit Union",
+      original_name: null,
+      category_id: 1050,
+      manual_account_id: 2004,
+      notes: "Car loan payment",
+    });
+
+    for (const merchant of MERCHANTS) {
+      const count = Math.floor(merchant.perMonth + random());
+      for (let i = 0; i < count; i++) {
+        const tagged = merchant.tag !== undefined && random() < 0.5;
+        add({
+          date: day(1 + Math.floor(random() * daysInMonth)),
+          amount: between(merchant.min, merchant.max),
+          payee: merchant.payee,
+          original_name: merchant.original,
+          category_id: random() < 0.05 ? null : merchant.category,
+          plaid_account_id: 3001,
+          tag_ids: tagged ? [merchant.tag!] : [],
+        });
+      }
+    }
+
+    // Occasional cash purchases and a summer trip in euros
+    add({
+      date: day(1 + Math.floor(random() * daysInMonth)),
+      amount: between(5, 25),
+      payee: "Farmers Market",
+      category_id: 1002,
+      manual_account_id: 2001,
+    });
+    if (month === 6) {
+      for (let i = 0; i < 6; i++) {
+        add({
+          date: day(10 + i),
+          amount: between(18, 140),
+          currency: "eur",
+          payee: ["Hotel Lutetia", "Café de Flore", "Monoprix", "SNCF", "Musée d'Orsay", "Le Comptoir"][i],
+          category_id: 1032,
+          manual_account_id: 2003,
+          tag_ids: [501],
+        });
+      }
+    }
+  }
+
+  // A pending charge and a transaction Plaid has flagged for deletion
+  add({
+    date: todayIso,
+    amount: 23.4,
+    payee: "Uber",
+    original_name: "UBER *TRIP PENDING",
+    category_id: 1023,
+    plaid_account_id: 3001,
+    is_pending: true,
+  });
+  add({
+    date: isoDate(new Date(today.getTime() - 3 * 86_400_000)),
+    amount: 61.07,
+    payee: "Shell",
+    original_name: "SHELL OIL 57442",
+    category_id: 1021,
+    plaid_account_id: 3001,
+    status: "delete_pending",
+  });
+
+  return store;
+}
+
+export function daysBetween(a: string, b: string): number {
+  return Math.round((Date.parse(b) - Date.parse(a)) / 86_400_000);
+}
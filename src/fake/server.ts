@@ -0,0 +1,991 @@
+import { createServer, type Server } from "node:http";
+import type { components } from "../types.js";
+import {
+  seedStore,
+  toBase,
+  formatApiAmount,
+  isoDate,
+  timestamp,
+  daysBetween,
+  type FakeStore,
+} from "./data.js";
+
+type Category = components["schemas"]["categoryObject"];
+type Tag = components["schemas"]["tagObject"];
+type ManualAccount = components["schemas"]["manualAccountObject"];
+type Transaction = components["schemas"]["transactionObject"];
+type InsertTransaction = components["schemas"]["insertTransactionObject"];
+type Skipped = components["schemas"]["skippedExistingExternalIdObject"];
+type Recurring = components["schemas"]["recurringObject"];
+
+type Query = URLSearchParams;
+type Body = Record<string, unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handle: (store: FakeStore, match: string[], query: Query, body: Body) => Response;
+}
+
+const MAX_TRANSACTIONS_PER_REQUEST = 500;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * In-memory implementation of the Lunch Money v2 API, seeded with synthetic
+ * data. The returned function has the same shape as `fetch`, so it can back
+ * the openapi-fetch client directly or be served over HTTP by `serveFake`.
+ */
+export function createFakeHandler(
+  store: FakeStore = seedStore()
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/^.*?\/v2(?=\/)/, "");
+    const text = request.method === "GET" ? "" : await request.text();
+
+    let body: Body = {};
+    if (text) {
+      try {
+        body = JSON.parse(text) as Body;
+      } catch {
+        return fail(400, "Request body is not valid JSON.");
+      }
+    }
+
+    for (const route of ROUTES) {
+      if (route.method !== request.method) continue;
+      const match = route.pattern.exec(path);
+      if (match) return route.handle(store, match, url.searchParams, body);
+    }
+    return fail(404, `${request.method} ${path} is not implemented by the fake server.`);
+  };
+}
+
+/** Serve the fake API over HTTP, e.g. for clients outside this process. */
+export function serveFake(port: number, host = "127.0.0.1"): Server {
+  const handle = createFakeHandler();
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const hasBody = req.method !== "GET" && req.method !== "HEAD";
+    const response = await handle(
+      new Request(`http://${host}:${port}${req.url}`, {
+        method: req.method,
+        headers: req.headers as Record<string, string>,
+        body: hasBody && chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+      })
+    );
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(Buffer.from(await response.arrayBuffer()));
+  });
+  server.listen(port, host);
+  return server;
+}
+
+// --- Responses ---
+
+function json(status: number, data: unknown): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function noContent(): Response {
+  return new Response(null, { status: 204 });
+}
+
+function fail(status: number, ...messages: string[]): Response {
+  return json(status, {
+    message: messages[0],
+    errors: messages.map((errMsg) => ({ errMsg })),
+  });
+}
+
+// --- Validation helpers ---
+
+function invalidDate(name: string, value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string" || !DATE_RE.test(value) || Number.isNaN(Date.parse(value))) {
+    return `Invalid ${name}: "${value}". Dates must be in YYYY-MM-DD format.`;
+  }
+  return null;
+}
+
+function invalidReferences(store: FakeStore, t: Body, prefix = ""): string[] {
+  const errors: string[] = [];
+  const dateError = invalidDate(`${prefix}date`, t.date);
+  if (dateError) errors.push(dateError);
+  if (t.amount !== undefined && Number.isNaN(Number(t.amount))) {
+    errors.push(`Invalid ${prefix}amount: "${t.amount}" is not a number.`);
+  }
+  if (typeof t.category_id === "number") {
+    const cat = store.categories.get(t.category_id);
+    if (!cat) errors.push(`Invalid ${prefix}category_id: category ${t.category_id} does not exist.`);
+    else if (cat.is_group) errors.push(`Invalid ${prefix}category_id: ${t.category_id} is a category group and cannot be assigned to transactions.`);
+  }
+  if (typeof t.manual_account_id === "number" && !store.manualAccounts.has(t.manual_account_id)) {
+    errors.push(`Invalid ${prefix}manual_account_id: manual account ${t.manual_account_id} does not exist.`);
+  }
+  if (typeof t.plaid_account_id === "number" && !store.plaidAccounts.has(t.plaid_account_id)) {
+    errors.push(`Invalid ${prefix}plaid_account_id: plaid account ${t.plaid_account_id} does not exist.`);
+  }
+  for (const key of ["tag_ids", "additional_tag_ids"]) {
+    for (const id of (t[key] as number[] | undefined) ?? []) {
+      if (!store.tags.has(id)) errors.push(`Invalid ${prefix}${key}: tag ${id} does not exist.`);
+    }
+  }
+  return errors;
+}
+
+function boolParam(query: Query, name: string): boolean | undefined {
+  const value = query.get(name);
+  return value === null ? undefined : value === "true";
+}
+
+function cents(value: unknown): number {
+  return Math.round(Number(value) * 100);
+}
+
+// --- Transactions ---
+
+/**
+ * Single-transaction responses always carry children, metadata and files;
+ * list responses only when the matching include_* flag is set.
+ */
+function hydrateTransaction(store: FakeStore, t: Transaction, query?: Query): Transaction {
+  const { children: _stale, ...out } = t;
+  const include = (flag: string) => !query || boolParam(query, flag) === true;
+  if ((t.is_split_parent || t.is_group_parent) && include("include_children")) {
+    (out as Transaction).children = [...store.transactions.values()]
+      .filter((c) => c.split_parent_id === t.id || c.group_parent_id === t.id)
+      .map(({ children: _c, ...child }) => child);
+  }
+  if (!include("include_metadata")) {
+    delete out.plaid_metadata;
+    delete out.custom_metadata;
+  }
+  if (!include("include_files")) delete out.files;
+  return out;
+}
+
+function listTransactions(store: FakeStore, query: Query): Response {
+  for (const name of ["start_date", "end_date"]) {
+    const error = invalidDate(name, query.get(name) ?? undefined);
+    if (error) return fail(400, error);
+  }
+  const start = query.get("start_date");
+  const end = query.get("end_date");
+  if ((start && !end) || (!start && end)) {
+    return fail(400, "Both start_date and end_date must be provided together.");
+  }
+  const limit = Number(query.get("limit") ?? 1000);
+  const offset = Number(query.get("offset") ?? 0);
+  if (!(limit >= 1 && limit <= 2000)) return fail(400, "Invalid limit: must be between 1 and 2000.");
+
+  const numeric = (name: string) => (query.has(name) ? Number(query.get(name)) : undefined);
+  const categoryId = numeric("category_id");
+  const tagId = numeric("tag_id");
+  const manualId = numeric("manual_account_id");
+  const plaidId = numeric("plaid_account_id");
+  const recurringId = numeric("recurring_id");
+  const status = query.get("status");
+  const isGroupParent = boolParam(query, "is_group_parent");
+  const isPending = boolParam(query, "is_pending");
+  const includePending = boolParam(query, "include_pending") ?? false;
+  const includeSplitParents = boolParam(query, "include_split_parents") ?? false;
+  const includeGroupChildren = boolParam(query, "include_group_children") ?? false;
+  const createdSince = query.get("created_since");
+  const updatedSince = query.get("updated_since");
+
+  const matches = [...store.transactions.values()]
+    .filter((t) => {
+      if (start && (t.date < start || t.date > end!)) return false;
+      if (categoryId !== undefined && (t.category_id ?? 0) !== categoryId) return false;
+      if (tagId !== undefined && !t.tag_ids.includes(tagId)) return false;
+      if (manualId !== undefined && t.manual_account_id !== manualId) return false;
+      if (plaidId !== undefined && t.plaid_account_id !== plaidId) return false;
+      if (recurringId !== undefined && t.recurring_id !== recurringId) return false;
+      if (status && t.status !== status) return false;
+      if (isGroupParent !== undefined && t.is_group_parent !== isGroupParent) return false;
+      if (isPending !== undefined) {
+        if (t.is_pending !== isPending) return false;
+      } else if (!includePending && t.is_pending) {
+        return false;
+      }
+      if (!includeSplitParents && t.is_split_parent) return false;
+      if (!includeGroupChildren && t.group_parent_id !== null) return false;
+      if (createdSince && t.created_at < createdSince) return false;
+      if (updatedSince && t.updated_at < updatedSince) return false;
+      return true;
+    })
+    .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+
+  return json(200, {
+    transactions: matches
+      .slice(offset, offset + limit)
+      .map((t) => hydrateTransaction(store, t, query)),
+    has_more: offset + limit < matches.length,
+  });
+}
+
+function getTransaction(store: FakeStore, id: number): Response {
+  const t = store.transactions.get(id);
+  if (!t) return fail(404, `Transaction ${id} not found.`);
+  return json(200, hydrateTransaction(store, t));
+}
+
+function applyTransactionUpdate(store: FakeStore, t: Transaction, update: Body): void {
+  const fields = ["date", "payee", "original_name", "category_id", "notes", "manual_account_id", "plaid_account_id", "tag_ids", "external_id", "status", "recurring_id", "currency"] as const;
+  for (const field of fields) {
+    if (update[field] !== undefined) (t as Record<string, unknown>)[field] = update[field];
+  }
+  if (update.additional_tag_ids) {
+    t.tag_ids = [...new Set([...t.tag_ids, ...(update.additional_tag_ids as number[])])];
+  }
+  if (update.amount !== undefined) t.amount = formatApiAmount(Number(update.amount));
+  t.to_base = toBase(Number(t.amount), t.currency);
+  t.updated_at = timestamp();
+}
+
+function updateTransaction(store: FakeStore, id: number, body: Body): Response {
+  const t = store.transactions.get(id);
+  if (!t) return fail(404, `Transaction ${id} not found.`);
+  const errors = invalidReferences(store, body);
+  if (errors.length > 0) return fail(400, ...errors);
+  applyTransactionUpdate(store, t, body);
+  return json(200, hydrateTransaction(store, t));
+}
+
+function updateTransactions(store: FakeStore, body: Body): Response {
+  const updates = (body.transactions as Body[] | undefined) ?? [];
+  if (updates.length === 0) return fail(400, "transactions must contain at least one item.");
+  if (updates.length > MAX_TRANSACTIONS_PER_REQUEST) {
+    return fail(400, `Too many transactions: at most ${MAX_TRANSACTIONS_PER_REQUEST} can be updated per request.`);
+  }
+  const errors = updates.flatMap((u, i) => {
+    if (typeof u.id !== "number" || !store.transactions.has(u.id)) {
+      return [`transactions[${i}].id: transaction ${u.id} not found.`];
+    }
+    return invalidReferences(store, u, `transactions[${i}].`);
+  });
+  if (errors.length > 0) return fail(400, ...errors);
+
+  const updated = updates.map((u) => {
+    const t = store.transactions.get(u.id as number)!;
+    applyTransactionUpdate(store, t, u);
+    return hydrateTransaction(store, t);
+  });
+  return json(200, { transactions: updated });
+}
+
+function insertTransactions(store: FakeStore, body: Body): Response {
+  const rows = (body.transactions as InsertTransaction[] | undefined) ?? [];
+  if (rows.length === 0) return fail(400, "transactions must contain at least one item.");
+  if (rows.length > MAX_TRANSACTIONS_PER_REQUEST) {
+    return fail(400, `Too many transactions: at most ${MAX_TRANSACTIONS_PER_REQUEST} can be inserted per request.`);
+  }
+  const errors = rows.flatMap((row, i) => {
+    const rowErrors = invalidReferences(store, row as Body, `transactions[${i}].`);
+    if (!row.date) rowErrors.push(`transactions[${i}].date is required.`);
+    if (row.amount === undefined) rowErrors.push(`transactions[${i}].amount is required.`);
+    if (row.manual_account_id && row.plaid_account_id) {
+      rowErrors.push(`transactions[${i}]: set either manual_account_id or plaid_account_id, not both.`);
+    }
+    return rowErrors;
+  });
+  if (errors.length > 0) return fail(400, ...errors);
+
+  const existing = [...store.transactions.values()];
+  const created: Transaction[] = [];
+  const skipped: Skipped[] = [];
+
+  rows.forEach((row, index) => {
+    const accountOf = (t: { manual_account_id?: number | null; plaid_account_id?: number | null }) =>
+      `${t.manual_account_id ?? ""}:${t.plaid_account_id ?? ""}`;
+    const pool = [...existing, ...created];
+
+    if (row.external_id) {
+      const dup = pool.find((t) => t.external_id === row.external_id && accountOf(t) === accountOf(row));
+      if (dup) {
+        skipped.push({ reason: "duplicate_external_id", request_transactions_index: index, existing_transaction_id: dup.id, request_transaction: row });
+        return;
+      }
+    }
+    if (body.skip_duplicates) {
+      const dup = pool.find(
+        (t) =>
+          t.date === row.date &&
+          cents(t.amount) === cents(row.amount) &&
+          t.payee.toLowerCase() === (row.payee ?? "").toLowerCase() &&
+          accountOf(t) === accountOf(row)
+      );
+      if (dup) {
+        skipped.push({ reason: "duplicate_payee_amount_date", request_transactions_index: index, existing_transaction_id: dup.id, request_transaction: row });
+        return;
+      }
+    }
+
+    let categoryId = row.category_id ?? null;
+    if (body.apply_rules && categoryId === null && row.payee) {
+      const payee = row.payee.toLowerCase();
+      categoryId = store.rules.find((r) => payee.includes(r.payeeContains))?.categoryId ?? null;
+    }
+
+    const id = store.nextId.transaction++;
+    const amount = Number(row.amount);
+    const currency = row.currency ?? store.user.primary_currency;
+    const now = timestamp();
+    const t: Transaction = {
+      id,
+      date: row.date,
+      amount: formatApiAmount(amount),
+      currency,
+      to_base: toBase(amount, currency),
+      recurring_id: row.recurring_id ?? null,
+      payee: row.payee ?? "",
+      original_name: row.original_name ?? null,
+      category_id: categoryId,
+      plaid_account_id: row.plaid_account_id ?? null,
+      manual_account_id: row.manual_account_id ?? null,
+      external_id: row.external_id ?? null,
+      tag_ids: row.tag_ids ?? [],
+      notes: row.notes ?? null,
+      status: row.status ?? "unreviewed",
+      is_pending: false,
+      created_at: now,
+      updated_at: now,
+      is_split_parent: false,
+      split_parent_id: null,
+      is_group_parent: false,
+      group_parent_id: null,
+      plaid_metadata: null,
+      custom_metadata: (row.custom_metadata as Transaction["custom_metadata"]) ?? null,
+      files: [],
+      source: "api",
+    };
+    store.transactions.set(id, t);
+    created.push(t);
+  });
+
+  return json(201, {
+    transactions: created.map((t) => hydrateTransaction(store, t)),
+    skipped_duplicates: skipped,
+  });
+}
+
+function deleteTransaction(store: FakeStore, id: number): Response {
+  const t = store.transactions.get(id);
+  if (!t) return fail(404, `Transaction ${id} not found.`);
+  if (t.split_parent_id !== null) {
+    return fail(400, `Transaction ${id} is part of a split. Unsplit transaction ${t.split_parent_id} first.`);
+  }
+  if (t.is_split_parent || t.is_group_parent) {
+    for (const child of store.transactions.values()) {
+      if (child.split_parent_id === id) store.transactions.delete(child.id);
+      if (child.group_parent_id === id) child.group_parent_id = null;
+    }
+  }
+  store.transactions.delete(id);
+  return noContent();
+}
+
+function deleteTransactions(store: FakeStore, body: Body): Response {
+  const ids = (body.ids as number[] | undefined) ?? [];
+  const missing = ids.filter((id) => !store.transactions.has(id));
+  if (missing.length > 0) return fail(404, `Transactions not found: ${missing.join(", ")}.`);
+  for (const id of ids) deleteTransaction(store, id);
+  return noContent();
+}
+
+function splitTransaction(store: FakeStore, id: number, body: Body): Response {
+  const parent = store.transactions.get(id);
+  if (!parent) return fail(404, `Transaction ${id} not found.`);
+  if (parent.is_split_parent) return fail(400, `Transaction ${id} is already split.`);
+  if (parent.split_parent_id !== null) return fail(400, `Transaction ${id} is itself a split child and cannot be split again.`);
+  if (parent.is_group_parent) return fail(400, `Transaction ${id} is a transaction group and cannot be split.`);
+
+  const splits = (body.child_transactions as Body[] | undefined) ?? [];
+  if (splits.length < 2) return fail(400, "child_transactions must contain at least 2 splits.");
+  const errors = splits.flatMap((s, i) => invalidReferences(store, s, `child_transactions[${i}].`));
+  if (errors.length > 0) return fail(400, ...errors);
+
+  const total = splits.reduce((sum, s) => sum + cents(s.amount), 0);
+  if (total !== cents(parent.amount)) {
+    return fail(
+      400,
+      `Split amounts must add up to the parent amount of ${Number(parent.amount).toFixed(2)}. The child_transactions amounts add up to ${(total / 100).toFixed(2)}.`
+    );
+  }
+
+  for (const s of splits) {
+    const childId = store.nextId.transaction++;
+    const amount = Number(s.amount);
+    store.transactions.set(childId, {
+      ...parent,
+      id: childId,
+      amount: formatApiAmount(amount),
+      to_base: toBase(amount, parent.currency),
+      payee: (s.payee as string | undefined) ?? parent.payee,
+      date: (s.date as string | undefined) ?? parent.date,
+      category_id: (s.category_id as number | undefined) ?? parent.category_id,
+      notes: (s.notes as string | undefined) ?? parent.notes,
+      split_parent_id: id,
+      is_split_parent: false,
+      external_id: null,
+      created_at: timestamp(),
+      updated_at: timestamp(),
+      source: "split",
+    });
+  }
+  parent.is_split_parent = true;
+  parent.updated_at = timestamp();
+  return json(201, hydrateTransaction(store, parent));
+}
+
+function unsplitTransaction(store: FakeStore, id: number): Response {
+  const parent = store.transactions.get(id);
+  if (!parent) return fail(404, `Transaction ${id} not found.`);
+  if (!parent.is_split_parent) return fail(400, `Transaction ${id} is not a split parent.`);
+  for (const child of store.transactions.values()) {
+    if (child.split_parent_id === id) store.transactions.delete(child.id);
+  }
+  parent.is_split_parent = false;
+  parent.updated_at = timestamp();
+  return noContent();
+}
+
+function groupTransactions(store: FakeStore, body: Body): Response {
+  const ids = (body.ids as number[] | undefined) ?? [];
+  if (ids.length < 2) return fail(400, "ids must contain at least 2 transaction IDs.");
+  const dateError = invalidDate("date", body.date);
+  if (dateError || !body.date) return fail(400, dateError ?? "date is required.");
+  if (!body.payee) return fail(400, "payee is required.");
+  const errors = invalidReferences(store, { category_id: body.category_id, tag_ids: body.tag_ids });
+  if (errors.length > 0) return fail(400, ...errors);
+
+  const members: Transaction[] = [];
+  for (const id of ids) {
+    const t = store.transactions.get(id);
+    if (!t) return fail(404, `Transaction ${id} not found.`);
+    if (t.group_parent_id !== null) return fail(400, `Transaction ${id} already belongs to group ${t.group_parent_id}.`);
+    if (t.is_split_parent || t.is_group_parent) return fail(400, `Transaction ${id} is a split or group parent and cannot be grouped.`);
+    members.push(t);
+  }
+  const currency = members[0].currency;
+  if (members.some((t) => t.currency !== currency)) {
+    return fail(400, "All grouped transactions must use the same currency.");
+  }
+
+  const id = store.nextId.transaction++;
+  const amount = members.reduce((sum, t) => sum + cents(t.amount), 0) / 100;
+  const now = timestamp();
+  const parent: Transaction = {
+    ...members[0],
+    id,
+    date: body.date as string,
+    payee: body.payee as string,
+    amount: formatApiAmount(amount),
+    to_base: toBase(amount, currency),
+    category_id: (body.category_id as number | null | undefined) ?? null,
+    notes: (body.notes as string | null | undefined) ?? null,
+    tag_ids: (body.tag_ids as number[] | undefined) ?? [],
+    status: (body.status as "reviewed" | "unreviewed" | undefined) ?? "reviewed",
+    recurring_id: null,
+    external_id: null,
+    original_name: null,
+    is_group_parent: true,
+    created_at: now,
+    updated_at: now,
+    source: "user",
+  };
+  store.transactions.set(id, parent);
+  for (const t of members) {
+    t.group_parent_id = id;
+    t.updated_at = now;
+  }
+  return json(201, hydrateTransaction(store, parent));
+}
+
+function ungroupTransactions(store: FakeStore, id: number): Response {
+  const parent = store.transactions.get(id);
+  if (!parent) return fail(404, `Transaction ${id} not found.`);
+  if (!parent.is_group_parent) return fail(400, `Transaction ${id} is not a transaction group.`);
+  for (const t of store.transactions.values()) {
+    if (t.group_parent_id === id) {
+      t.group_parent_id = null;
+      t.updated_at = timestamp();
+    }
+  }
+  store.transactions.delete(id);
+  return noContent();
+}
+
+// --- Categories ---
+
+function withChildren(store: FakeStore, cat: Category): Category {
+  if (!cat.is_group) return { ...cat };
+  const children = [...store.categories.values()]
+    .filter((c) => c.group_id === cat.id)
+    .map((c) => ({ ...c, is_group: false as const }));
+  return { ...cat, children };
+}
+
+function listCategories(store: FakeStore, query: Query): Response {
+  const format = query.get("format") ?? "nested";
+  if (format !== "nested" && format !== "flattened") {
+    return fail(400, `Invalid format: "${format}". Expected "nested" or "flattened".`);
+  }
+  const isGroup = boolParam(query, "is_group");
+  const categories = [...store.categories.values()]
+    .filter((c) => (format === "nested" ? c.group_id === null : true))
+    .filter((c) => isGroup === undefined || c.is_group === isGroup)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+    .map((c) => withChildren(store, c));
+  return json(200, { categories });
+}
+
+function categoryErrors(store: FakeStore, body: Body, id?: number): string[] {
+  const errors: string[] = [];
+  if (typeof body.name === "string") {
+    const name = body.name.trim().toLowerCase();
+    if (!name) errors.push("name cannot be empty.");
+    const clash = [...store.categories.values()].find((c) => c.name.toLowerCase() === name && c.id !== id);
+    if (clash) errors.push(`A category named "${clash.name}" already exists (ID: ${clash.id}).`);
+  }
+  if (typeof body.group_id === "number") {
+    const group = store.categories.get(body.group_id);
+    if (!group || !group.is_group) errors.push(`Invalid group_id: ${body.group_id} is not a category group.`);
+  }
+  return errors;
+}
+
+function createCategory(store: FakeStore, body: Body): Response {
+  if (typeof body.name !== "string") return fail(400, "name is required.");
+  const errors = categoryErrors(store, body);
+  if (errors.length > 0) return fail(400, ...errors);
+  const id = store.nextId.category++;
+  const now = timestamp();
+  const cat: Category = {
+    id,
+    name: body.name.trim(),
+    description: (body.description as string | null | undefined) ?? null,
+    is_income: (body.is_income as boolean | undefined) ?? false,
+    exclude_from_budget: (body.exclude_from_budget as boolean | undefined) ?? false,
+    exclude_from_totals: (body.exclude_from_totals as boolean | undefined) ?? false,
+    updated_at: now,
+    created_at: now,
+    group_id: (body.group_id as number | null | undefined) ?? null,
+    is_group: (body.is_group as boolean | undefined) ?? false,
+    archived: (body.archived as boolean | undefined) ?? false,
+    archived_at: null,
+    order: store.categories.size,
+    collapsed: false,
+  };
+  store.categories.set(id, cat);
+  return json(201, withChildren(store, cat));
+}
+
+function updateCategory(store: FakeStore, id: number, body: Body): Response {
+  const cat = store.categories.get(id);
+  if (!cat) return fail(404, `Category ${id} not found.`);
+  const errors = categoryErrors(store, body, id);
+  if (errors.length > 0) return fail(400, ...errors);
+  for (const field of ["name", "description", "is_income", "exclude_from_budget", "exclude_from_totals", "group_id", "order", "collapsed"] as const) {
+    if (body[field] !== undefined) (cat as Record<string, unknown>)[field] = body[field];
+  }
+  if (body.archived !== undefined) {
+    cat.archived = body.archived as boolean;
+    cat.archived_at = cat.archived ? timestamp() : null;
+  }
+  cat.updated_at = timestamp();
+  return json(200, withChildren(store, cat));
+}
+
+function deleteCategory(store: FakeStore, id: number, query: Query): Response {
+  const cat = store.categories.get(id);
+  if (!cat) return fail(404, `Category ${id} not found.`);
+  const transactions = [...store.transactions.values()].filter((t) => t.category_id === id);
+  const children = [...store.categories.values()].filter((c) => c.group_id === id);
+  const recurring = [...store.recurring.values()].filter((r) => r.overrides.category_id === id);
+  const rules = store.rules.filter((r) => r.categoryId === id);
+  const dependents = {
+    budget: store.budgets.has(id) ? 1 : 0,
+    category_rules: rules.length,
+    transactions: transactions.length,
+    children: children.length,
+    recurring: recurring.length,
+    plaid_cats: 0,
+  };
+  const hasDependents = Object.values(dependents).some((n) => n > 0);
+  if (hasDependents && !boolParam(query, "force")) {
+    return json(422, { category_name: cat.name, dependents });
+  }
+  for (const t of transactions) t.category_id = null;
+  for (const c of children) c.group_id = null;
+  for (const r of recurring) delete r.overrides.category_id;
+  store.rules = store.rules.filter((r) => r.categoryId !== id);
+  store.budgets.delete(id);
+  store.categories.delete(id);
+  return noContent();
+}
+
+// --- Tags ---
+
+function tagErrors(store: FakeStore, body: Body, id?: number): string[] {
+  if (typeof body.name !== "string") return [];
+  const name = body.name.trim().toLowerCase();
+  if (!name) return ["name cannot be empty."];
+  const clash = [...store.tags.values()].find((t) => t.name.toLowerCase() === name && t.id !== id);
+  return clash ? [`A tag named "${clash.name}" already exists (ID: ${clash.id}).`] : [];
+}
+
+function createTag(store: FakeStore, body: Body): Response {
+  if (typeof body.name !== "string") return fail(400, "name is required.");
+  const errors = tagErrors(store, body);
+  if (errors.length > 0) return fail(400, ...errors);
+  const id = store.nextId.tag++;
+  const now = timestamp();
+  const tag: Tag = {
+    id,
+    name: body.name.trim(),
+    description: (body.description as string | null | undefined) ?? null,
+    text_color: (body.text_color as string | null | undefined) ?? null,
+    background_color: (body.background_color as string | null | undefined) ?? null,
+    updated_at: now,
+    created_at: now,
+    archived: (body.archived as boolean | undefined) ?? false,
+    archived_at: null,
+  };
+  store.tags.set(id, tag);
+  return json(201, tag);
+}
+
+function updateTag(store: FakeStore, id: number, body: Body): Response {
+  const tag = store.tags.get(id);
+  if (!tag) return fail(404, `Tag ${id} not found.`);
+  const errors = tagErrors(store, body, id);
+  if (errors.length > 0) return fail(400, ...errors);
+  for (const field of ["name", "description", "text_color", "background_color"] as const) {
+    if (body[field] !== undefined) (tag as Record<string, unknown>)[field] = body[field];
+  }
+  if (body.archived !== undefined) {
+    tag.archived = body.archived as boolean;
+    tag.archived_at = tag.archived ? timestamp() : null;
+  }
+  tag.updated_at = timestamp();
+  return json(200, tag);
+}
+
+function deleteTag(store: FakeStore, id: number, query: Query): Response {
+  const tag = store.tags.get(id);
+  if (!tag) return fail(404, `Tag ${id} not found.`);
+  const tagged = [...store.transactions.values()].filter((t) => t.tag_ids.includes(id));
+  if (tagged.length > 0 && !boolParam(query, "force")) {
+    return json(422, { tag_name: tag.name, dependents: { rules: 0, transactions: tagged.length } });
+  }
+  for (const t of tagged) t.tag_ids = t.tag_ids.filter((tagId) => tagId !== id);
+  store.tags.delete(id);
+  return noContent();
+}
+
+// --- Manual accounts ---
+
+const ACCOUNT_TYPES = ["cash", "credit", "cryptocurrency", "employee compensation", "investment", "loan", "other liability", "other asset", "real estate", "vehicle"];
+
+function accountErrors(store: FakeStore, body: Body, id?: number): string[] {
+  const errors: string[] = [];
+  if (body.type !== undefined && !ACCOUNT_TYPES.includes(body.type as string)) {
+    errors.push(`Invalid type: "${body.type}". Expected one of: ${ACCOUNT_TYPES.join(", ")}.`);
+  }
+  if (body.balance !== undefined && Number.isNaN(Number(body.balance))) {
+    errors.push(`Invalid balance: "${body.balance}" is not a number.`);
+  }
+  if (typeof body.display_name === "string") {
+    const clash = [...store.manualAccounts.values()].find(
+      (a) => a.id !== id && (a.display_name ?? a.name).toLowerCase() === (body.display_name as string).toLowerCase()
+    );
+    if (clash) errors.push(`Invalid display_name: "${body.display_name}" is already used by account ${clash.id}.`);
+  }
+  return errors;
+}
+
+function createManualAccount(store: FakeStore, body: Body): Response {
+  const missing = ["name", "type", "balance"].filter((f) => body[f] === undefined);
+  if (missing.length > 0) return fail(400, ...missing.map((f) => `${f} is required.`));
+  const errors = accountErrors(store, body);
+  if (errors.length > 0) return fail(400, ...errors);
+  const id = store.nextId.manualAccount++;
+  const now = timestamp();
+  const balance = Number(body.balance);
+  const currency = (body.currency as string | undefined) ?? store.user.primary_currency;
+  const account: ManualAccount = {
+    id,
+    name: body.name as string,
+    institution_name: (body.institution_name as string | undefined) ?? null,
+    display_name: (body.display_name as string | undefined) ?? null,
+    type: body.type as ManualAccount["type"],
+    subtype: (body.subtype as string | undefined) ?? null,
+    balance: formatApiAmount(balance),
+    currency,
+    to_base: toBase(balance, currency),
+    balance_as_of: now,
+    status: (body.status as "active" | "closed" | undefined) ?? "active",
+    closed_on: null,
+    external_id: (body.external_id as string | undefined) ?? null,
+    custom_metadata: null,
+    exclude_from_transactions: (body.exclude_from_transactions as boolean | undefined) ?? false,
+    created_by_name: store.user.name,
+    created_at: now,
+    updated_at: now,
+  };
+  store.manualAccounts.set(id, account);
+  return json(201, account);
+}
+
+function updateManualAccount(store: FakeStore, id: number, body: Body): Response {
+  const account = store.manualAccounts.get(id);
+  if (!account) return fail(404, `Manual account ${id} not found.`);
+  const errors = accountErrors(store, body, id);
+  if (errors.length > 0) return fail(400, ...errors);
+  for (const field of ["name", "institution_name", "display_name", "type", "subtype", "currency", "status", "closed_on", "external_id", "exclude_from_transactions"] as const) {
+    if (body[field] !== undefined) (account as Record<string, unknown>)[field] = body[field];
+  }
+  if (body.balance !== undefined) {
+    account.balance = formatApiAmount(Number(body.balance));
+    account.balance_as_of = timestamp();
+  }
+  account.to_base = toBase(Number(account.balance), account.currency);
+  account.updated_at = timestamp();
+  return json(200, account);
+}
+
+function deleteManualAccount(store: FakeStore, id: number, query: Query): Response {
+  if (!store.manualAccounts.has(id)) return fail(404, `Manual account ${id} not found.`);
+  const deleteItems = boolParam(query, "delete_items") ?? false;
+  for (const t of [...store.transactions.values()]) {
+    if (t.manual_account_id !== id) continue;
+    if (deleteItems) store.transactions.delete(t.id);
+    else t.manual_account_id = null;
+  }
+  store.manualAccounts.delete(id);
+  return noContent();
+}
+
+// --- Recurring ---
+
+function addInterval(date: string, granularity: string, quantity: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (granularity === "day") d.setUTCDate(d.getUTCDate() + quantity);
+  else if (granularity === "week") d.setUTCDate(d.getUTCDate() + 7 * quantity);
+  else if (granularity === "month") d.setUTCMonth(d.getUTCMonth() + quantity);
+  else d.setUTCFullYear(d.getUTCFullYear() + quantity);
+  return isoDate(d);
+}
+
+function withMatches(store: FakeStore, r: Recurring, start: string, end: string): Recurring {
+  const c = r.transaction_criteria;
+  const expected: string[] = [];
+  for (let d = c.anchor_date; d <= end; d = addInterval(d, c.granularity, c.quantity)) {
+    if (d >= start) expected.push(d);
+  }
+  const found = [...store.transactions.values()]
+    .filter((t) => t.recurring_id === r.id && t.date >= start && t.date <= end)
+    .map((t) => ({ date: t.date, transaction_id: t.id }));
+  const missing = expected.filter(
+    (d) => !found.some((f) => Math.abs(daysBetween(d, f.date)) <= 5)
+  );
+  return {
+    ...r,
+    matches: {
+      request_start_date: start,
+      request_end_date: end,
+      expected_occurrence_dates: expected,
+      found_transactions: found,
+      missing_transaction_dates: missing,
+    },
+  };
+}
+
+function recurringRange(query: Query): [string, string] | Response {
+  for (const name of ["start_date", "end_date"]) {
+    const error = invalidDate(name, query.get(name) ?? undefined);
+    if (error) return fail(400, error);
+  }
+  const now = new Date();
+  const start = query.get("start_date") ?? isoDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)));
+  const end = query.get("end_date") ?? isoDate(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0)));
+  return [start, end];
+}
+
+function listRecurring(store: FakeStore, query: Query): Response {
+  const range = recurringRange(query);
+  if (range instanceof Response) return range;
+  const includeSuggested = boolParam(query, "include_suggested") ?? false;
+  const items = [...store.recurring.values()]
+    .filter((r) => includeSuggested || r.status === "reviewed")
+    .map((r) => withMatches(store, r, ...range));
+  return json(200, { recurring_items: items });
+}
+
+function getRecurring(store: FakeStore, id: number, query: Query): Response {
+  const r = store.recurring.get(id);
+  if (!r) return fail(404, `Recurring item ${id} not found.`);
+  const range = recurringRange(query);
+  if (range instanceof Response) return range;
+  return json(200, withMatches(store, r, ...range));
+}
+
+// --- Summary ---
+
+function summary(store: FakeStore, query: Query): Response {
+  const start = query.get("start_date");
+  const end = query.get("end_date");
+  if (!start || !end) return fail(400, "start_date and end_date are required.");
+  for (const [name, value] of [["start_date", start], ["end_date", end]]) {
+    const error = invalidDate(name, value);
+    if (error) return fail(400, error);
+  }
+  if (start > end) return fail(400, "start_date must be on or before end_date.");
+
+  const startDate = new Date(`${start}T00:00:00Z`);
+  const endDate = new Date(`${end}T00:00:00Z`);
+  const nextDay = new Date(endDate.getTime() + 86_400_000);
+  const aligned = startDate.getUTCDate() === 1 && nextDay.getUTCDate() === 1;
+  const months = aligned
+    ? (nextDay.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + nextDay.getUTCMonth() - startDate.getUTCMonth()
+    : 0;
+
+  const includeExcluded = boolParam(query, "include_exclude_from_budgets") ?? false;
+  const perCategory = new Map<number, { other: number; recurring: number }>();
+  const inflow = { other_activity: 0, recurring_activity: 0, uncategorized: 0, uncategorized_count: 0 };
+  const outflow = { other_activity: 0, recurring_activity: 0, uncategorized: 0, uncategorized_count: 0 };
+
+  for (const t of store.transactions.values()) {
+    if (t.date < start || t.date > end) continue;
+    if (t.is_split_parent || t.group_parent_id !== null || t.is_pending) continue;
+    const cat = t.category_id !== null ? store.categories.get(t.category_id) : undefined;
+    if (cat?.exclude_from_totals) continue;
+    const amount = t.to_base;
+    const isRecurring = t.recurring_id !== null;
+    const bucket = amount < 0 ? inflow : outflow;
+    const value = Math.abs(amount);
+    if (isRecurring) bucket.recurring_activity += value;
+    else bucket.other_activity += value;
+    if (!cat) {
+      bucket.uncategorized += value;
+      bucket.uncategorized_count++;
+      continue;
+    }
+    if (cat.exclude_from_budget && !includeExcluded) continue;
+    const totals = perCategory.get(cat.id) ?? { other: 0, recurring: 0 };
+    if (isRecurring) totals.recurring += amount;
+    else totals.other += amount;
+    perCategory.set(cat.id, totals);
+  }
+
+  const round = (n: number) => Math.round(n * 100) / 100;
+  const categories = [...perCategory.entries()].map(([id, totals]) => {
+    const base = {
+      other_activity: round(totals.other),
+      recurring_activity: round(totals.recurring),
+      recurring_remaining: 0,
+      recurring_expected: round(totals.recurring),
+    };
+    if (!aligned) return { category_id: id, totals: base };
+    const monthly = store.budgets.get(id);
+    const budgeted = monthly !== undefined ? round(monthly * months) : null;
+    return {
+      category_id: id,
+      totals: {
+        ...base,
+        budgeted,
+        available: budgeted !== null ? round(budgeted - totals.other - totals.recurring) : null,
+      },
+    };
+  });
+
+  const roundAll = <T extends Record<string, number>>(o: T) =>
+    Object.fromEntries(Object.entries(o).map(([k, v]) => [k, round(v)])) as T;
+  const includeTotals = boolParam(query, "include_totals") ?? false;
+
+  return json(200, {
+    aligned,
+    categories,
+    ...(includeTotals ? { totals: { inflow: roundAll(inflow), outflow: roundAll(outflow) } } : {}),
+  });
+}
+
+// --- Routing ---
+
+const id = (match: string[]) => Number(match[1]);
+
+const ROUTES: Route[] = [
+  { method: "GET", pattern: /^\/me$/, handle: (s) => json(200, s.user) },
+  { method: "GET", pattern: /^\/summary$/, handle: (s, _m, q) => summary(s, q) },
+
+  { method: "GET", pattern: /^\/categories$/, handle: (s, _m, q) => listCategories(s, q) },
+  { method: "POST", pattern: /^\/categories$/, handle: (s, _m, _q, b) => createCategory(s, b) },
+  {
+    method: "GET",
+    pattern: /^\/categories\/(\d+)$/,
+    handle: (s, m) => {
+      const cat = s.categories.get(id(m));
+      return cat ? json(200, withChildren(s, cat)) : fail(404, `Category ${id(m)} not found.`);
+    },
+  },
+  { method: "PUT", pattern: /^\/categories\/(\d+)$/, handle: (s, m, _q, b) => updateCategory(s, id(m), b) },
+  { method: "DELETE", pattern: /^\/categories\/(\d+)$/, handle: (s, m, q) => deleteCategory(s, id(m), q) },
+
+  { method: "GET", pattern: /^\/tags$/, handle: (s) => json(200, { tags: [...s.tags.values()] }) },
+  { method: "POST", pattern: /^\/tags$/, handle: (s, _m, _q, b) => createTag(s, b) },
+  {
+    method: "GET",
+    pattern: /^\/tags\/(\d+)$/,
+    handle: (s, m) => {
+      const tag = s.tags.get(id(m));
+      return tag ? json(200, tag) : fail(404, `Tag ${id(m)} not found.`);
+    },
+  },
+  { method: "PUT", pattern: /^\/tags\/(\d+)$/, handle: (s, m, _q, b) => updateTag(s, id(m), b) },
+  { method: "DELETE", pattern: /^\/tags\/(\d+)$/, handle: (s, m, q) => deleteTag(s, id(m), q) },
+
+  { method: "GET", pattern: /^\/manual_accounts$/, handle: (s) => json(200, { manual_accounts: [...s.manualAccounts.values()] }) },
+  { method: "POST", pattern: /^\/manual_accounts$/, handle: (s, _m, _q, b) => createManualAccount(s, b) },
+  {
+    method: "GET",
+    pattern: /^\/manual_accounts\/(\d+)$/,
+    handle: (s, m) => {
+      const account = s.manualAccounts.get(id(m));
+      return account ? json(200, account) : fail(404, `Manual account ${id(m)} not found.`);
+    },
+  },
+  { method: "PUT", pattern: /^\/manual_accounts\/(\d+)$/, handle: (s, m, _q, b) => updateManualAccount(s, id(m), b) },
+  { method: "DELETE", pattern: /^\/manual_accounts\/(\d+)$/, handle: (s, m, q) => deleteManualAccount(s, id(m), q) },
+
+  { method: "GET", pattern: /^\/plaid_accounts$/, handle: (s) => json(200, { plaid_accounts: [...s.plaidAccounts.values()] }) },
+  { method: "POST", pattern: /^\/plaid_accounts\/fetch$/, handle: () => new Response(null, { status: 202 }) },
+  {
+    method: "GET",
+    pattern: /^\/plaid_accounts\/(\d+)$/,
+    handle: (s, m) => {
+      const account = s.plaidAccounts.get(id(m));
+      return account ? json(200, account) : fail(404, `Plaid account ${id(m)} not found.`);
+    },
+  },
+
+  { method: "GET", pattern: /^\/transactions$/, handle: (s, _m, q) => listTransactions(s, q) },
+  { method: "POST", pattern: /^\/transactions$/, handle: (s, _m, _q, b) => insertTransactions(s, b) },
+  { method: "PUT", pattern: /^\/transactions$/, handle: (s, _m, _q, b) => updateTransactions(s, b) },
+  { method: "DELETE", pattern: /^\/transactions$/, handle: (s, _m, _q, b) => deleteTransactions(s, b) },
+  { method: "POST", pattern: /^\/transactions\/group$/, handle: (s, _m, _q, b) => groupTransactions(s, b) },
+  { method: "DELETE", pattern: /^\/transactions\/group\/(\d+)$/, handle: (s, m) => ungroupTransactions(s, id(m)) },
+  { method: "POST", pattern: /^\/transactions\/split\/(\d+)$/, handle: (s, m, _q, b) => splitTransaction(s, id(m), b) },
+  { method: "DELETE", pattern: /^\/transactions\/split\/(\d+)$/, handle: (s, m) => unsplitTransaction(s, id(m)) },
+  { method: "GET", pattern: /^\/transactions\/(\d+)$/, handle: (s, m) => getTransaction(s, id(m)) },
+  { method: "PUT", pattern: /^\/transactions\/(\d+)$/, handle: (s, m, _q, b) => updateTransaction(s, id(m), b) },
+  { method: "DELETE", pattern: /^\/transactions\/(\d+)$/, handle: (s, m) => deleteTransaction(s, id(m)) },
+
+  { method: "GET", pattern: /^\/recurring_items$/, handle: (s, _m, q) => listRecurring(s, q) },
+  { method: "GET", pattern: /^\/recurring_items\/(\d+)$/, handle: (s, m, q) => getRecurring(s, id(m), q) },
+];
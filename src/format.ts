@@ -1,7 +1,24 @@
 import type { components } from "./types.js";
-import { categoryName, tagNames, accountName, getCache } from "./cache.js";
+import {
+  categoryName,
+  tagNames,
+  accountName,
+  cachedUser,
+  getCache,
+  type CacheHealth,
+} from "./cache.js";
+import type { SchedulerStats } from "./scheduler.js";
+import type { ErrorReport } from "./client.js";
+import type { Policy } from "./policy.js";
+import type { StoreStatus, SyncResult } from "./store.js";
+import type { QueryResult } from "./sql.js";
+import type { DryRunPreview, EntityChange } from "./dryrun.js";
+import { writtenFields, type JournalEntry } from "./journal.js";
 
 type Transaction = components["schemas"]["transactionObject"];
+type ChildTransaction = components["schemas"]["childTransactionObject"];
+type Attachment = components["schemas"]["transactionAttachmentObject"];
+type SkippedDuplicate = components["schemas"]["skippedExistingExternalIdObject"];
 type Category = components["schemas"]["categoryObject"];
 type ManualAccount = components["schemas"]["manualAccountObject"];
 type PlaidAccount = components["schemas"]["plaidAccountObject"];
@@ -14,22 +31,61 @@ export function formatTransaction(t: Transaction): string {
   const tags = t.tag_ids.length > 0 ? ` [${tagNames(t.tag_ids).join(", ")}]` : "";
   const account = accountName(t.manual_account_id, t.plaid_account_id);
   const category = categoryName(t.category_id);
-  const notes = t.notes ? `\n  Notes: ${t.notes}` : "";
-  const status = t.status === "unreviewed" ? " (unreviewed)" : "";
-
-  return [
-    `${t.date}  ${formatAmount(t.amount, t.currency)}  ${t.payee}`,
-    `  Category: ${category} | Account: ${account}${status}${tags}`,
-    `  ID: ${t.id}`,
+  const notes = t.notes ? `  Notes: ${t.notes}` : "";
+  const original =
+    t.original_name && t.original_name !== t.payee ? `  Original name: ${t.original_name}` : "";
+  const ids = [`ID: ${t.id}`];
+  if (t.source) ids.push(`Source: ${t.source}`);
+  if (t.split_parent_id !== null) ids.push(`Split from #${t.split_parent_id}`);
+  if (t.group_parent_id !== null) ids.push(`In group #${t.group_parent_id}`);
+
+  const lines = [
+    `${t.date}  ${formatAmount(t.amount, t.currency)}${formatBaseAmount(t.to_base, t.currency)}  ${t.payee}`,
+    `  Category: ${category} | Account: ${account}${formatStatus(t)}${tags}`,
+    `  ${ids.join(" | ")}`,
+    original,
     notes,
-  ]
-    .filter(Boolean)
-    .join("\n");
+  ];
+  if (t.children?.length) {
+    const heading = t.is_group_parent
+      ? `Group of ${t.children.length}:`
+      : `Split into ${t.children.length}:`;
+    lines.push(`  ${heading}`, ...t.children.map((c) => `    - ${formatTransactionLine(c)}`));
+  } else if (t.is_split_parent) {
+    lines.push("  Split parent (include_children lists the parts)");
+  } else if (t.is_group_parent) {
+    lines.push("  Transaction group (include_children lists its members)");
+  }
+  if (t.files?.length) lines.push(`  Files: ${t.files.map(formatFile).join(", ")}`);
+  if (t.custom_metadata) lines.push(`  Custom metadata: ${formatMetadata(t.custom_metadata)}`);
+  if (t.plaid_metadata) lines.push(`  Plaid metadata: ${formatMetadata(t.plaid_metadata)}`);
+
+  return lines.filter(Boolean).join("\n");
+}
+
+/** " (unreviewed)", " (pending)", " (delete pending)" or "". */
+function formatStatus(t: Transaction | ChildTransaction): string {
+  if (t.is_pending) return " (pending)";
+  if (t.status === "delete_pending") return " (delete pending)";
+  return t.status === "unreviewed" ? " (unreviewed)" : "";
+}
+
+function formatFile(file: Attachment): string {
+  const details = [file.type, file.size !== undefined ? `${file.size} KB` : undefined].filter(Boolean);
+  return `${file.name ?? `file #${file.id}`}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+const MAX_METADATA_LENGTH = 300;
+
+function formatMetadata(metadata: object): string {
+  const text = JSON.stringify(metadata);
+  return text.length > MAX_METADATA_LENGTH ? `${text.slice(0, MAX_METADATA_LENGTH - 1)}…` : text;
 }
 
 export function formatTransactions(
   transactions: Transaction[],
-  hasMore: boolean
+  hasMore: boolean,
+  moreHint = "pass all=true to fetch every match"
 ): string {
   if (transactions.length === 0) {
     return "No transactions found for this period. Try adjusting the date range or filters.";
@@ -37,11 +93,59 @@ export function formatTransactions(
 
   const lines = transactions.map(formatTransaction);
   const summary = `Showing ${transactions.length} transaction${transactions.length === 1 ? "" : "s"}`;
-  const more = hasMore ? " (more available — increase limit or use offset)" : "";
+  const more = hasMore ? ` (more available — ${moreHint})` : "";
 
   return `${summary}${more}\n\n${lines.join("\n\n")}`;
 }
 
+/** One line per transaction, for listings too large to show in full and for split parts. */
+export function formatTransactionLine(t: Transaction | ChildTransaction): string {
+  const account = accountName(t.manual_account_id, t.plaid_account_id);
+  return `${t.date}  ${formatAmount(t.amount, t.currency)}  ${t.payee} | ${categoryName(t.category_id)} | ${account}${formatStatus(t)} | #${t.id}`;
+}
+
+const DIGEST_TOP_CATEGORIES = 5;
+
+/**
+ * Aggregate header for a compacted listing: count, money in and out in the
+ * primary currency, and the categories with the most spending. With
+ * `hasMore` the fetched transactions are only the first of the matches, and
+ * the header says its totals are partial.
+ */
+export function formatTransactionDigest(
+  transactions: Transaction[],
+  hasMore = false,
+  moreHint = "pass all=true to fetch every match"
+): string {
+  let inflow = 0;
+  let outflow = 0;
+  const spending = new Map<number | null, { total: number; count: number }>();
+  for (const t of transactions) {
+    const amount = t.to_base ?? Number(t.amount);
+    if (amount < 0) {
+      inflow -= amount;
+      continue;
+    }
+    outflow += amount;
+    const entry = spending.get(t.category_id) ?? { total: 0, count: 0 };
+    entry.total += amount;
+    entry.count += 1;
+    spending.set(t.category_id, entry);
+  }
+  const top = [...spending.entries()]
+    .sort((a, b) => b[1].total - a[1].total)
+    .slice(0, DIGEST_TOP_CATEGORIES)
+    .map(([id, { total, count }]) => `${categoryName(id)} ${formatCurrency(total)} (${count})`);
+
+  const count = `${transactions.length} transaction${transactions.length === 1 ? "" : "s"}`;
+  const lines = [
+    `${hasMore ? `First ${count} (more match)` : count} | In: ${formatCurrency(inflow)} | Out: ${formatCurrency(outflow)}`,
+  ];
+  if (top.length > 0) lines.push(`Top categories: ${top.join(", ")}`);
+  if (hasMore) lines.push(`Totals cover only these ${transactions.length} — ${moreHint} for complete totals.`);
+  return lines.join("\n");
+}
+
 // --- Categories ---
 
 export function formatCategories(
@@ -205,6 +309,11 @@ export function formatSummary(
   return lines.join("\n");
 }
 
+/** One-line totals, e.g. below a table of the per-category rows. */
+export function formatSummaryTotals(totals: { income: number; spending: number; net: number }): string {
+  return `Income: ${formatCurrency(totals.income)} | Spending: ${formatCurrency(totals.spending)} | Net: ${formatCurrency(totals.net)}`;
+}
+
 // --- Recurring ---
 
 export function formatRecurring(items: Recurring[]): string {
@@ -244,6 +353,150 @@ export function formatUser(user: Record<string, unknown>): string {
   ].join("\n");
 }
 
+// --- Profiles ---
+
+export interface ProfileInfo {
+  name: string;
+  isDefault: boolean;
+  budgetName?: string;
+  currency?: string;
+  error?: string;
+}
+
+export function formatProfiles(profiles: ProfileInfo[]): string {
+  return profiles
+    .map((p) => {
+      const marker = p.isDefault ? " (default)" : "";
+      const detail = p.error
+        ? `Unavailable: ${p.error}`
+        : `Budget: ${p.budgetName} | Currency: ${p.currency?.toUpperCase()}`;
+      return `${p.name}${marker}\n  ${detail}`;
+    })
+    .join("\n\n");
+}
+
+// --- Server status ---
+
+export function formatServerStatus(stats: SchedulerStats): string {
+  const avgWait =
+    stats.started > 0 ? Math.round(stats.totalWaitMs / stats.started) : 0;
+  return [
+    "API Request Scheduler:",
+    `  Limits: ${stats.maxConcurrency} concurrent, ${stats.requestsPerSecond} requests/sec`,
+    `  Active: ${stats.active} | Queued: ${stats.queued}`,
+    `  Requests sent: ${stats.started} | Coalesced duplicates: ${stats.coalesced}`,
+    `  Throttled: ${stats.throttled} | Avg wait: ${avgWait}ms | Max wait: ${stats.maxWaitMs}ms`,
+  ].join("\n");
+}
+
+const CACHE_ENTITY_NAMES: Record<CacheHealth["entity"], string> = {
+  categories: "categories",
+  tags: "tags",
+  manualAccounts: "manual accounts",
+  plaidAccounts: "synced accounts",
+  user: "user info",
+};
+
+export function formatCacheHealth(health: CacheHealth[]): string {
+  const lines = health.map((h) => {
+    const name = CACHE_ENTITY_NAMES[h.entity];
+    if (!h.loaded) return `  ${name}: not loaded${h.error ? ` — ${h.error}` : ""}`;
+    const stale = h.error ? ` (last refresh failed: ${h.error})` : "";
+    const size = h.entity === "user" ? "" : `${h.size} `;
+    return `  ${name}: ${size}loaded at ${h.loadedAt}, refreshed every ${formatDuration(h.ttlSeconds)}${stale}`;
+  });
+  return ["Cache:", ...lines].join("\n");
+}
+
+function formatDuration(seconds: number): string {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+}
+
+export function formatCacheRefresh(health: CacheHealth[]): string {
+  const failed = health.filter((h) => h.error);
+  const lines = health
+    .filter((h) => !h.error)
+    .map((h) => {
+      const name = CACHE_ENTITY_NAMES[h.entity];
+      return h.entity === "user" ? `  ${name}: reloaded` : `  ${name}: ${h.size} reloaded`;
+    });
+  for (const h of failed) {
+    lines.push(`  ${CACHE_ENTITY_NAMES[h.entity]}: failed — ${h.error}`);
+  }
+  const heading = failed.length === 0 ? "Cache refreshed:" : "Cache partially refreshed:";
+  return [heading, ...lines].join("\n");
+}
+
+export function formatStoreStatus(status: StoreStatus | null): string {
+  if (!status) return "Transaction Store: off (lists are read from the API)";
+  const lines = [
+    "Transaction Store:",
+    `  File: ${status.file}`,
+    `  Transactions: ${status.transactions}`,
+    `  Last sync: ${status.syncedAt ?? "never"} | Last full sync: ${status.fullSyncAt ?? "never"}`,
+  ];
+  if (status.error) lines.push(`  Last sync failed: ${status.error}`);
+  return lines.join("\n");
+}
+
+export function formatSyncResult(result: SyncResult, status: StoreStatus): string {
+  return [
+    `${result.full ? "Full sync" : "Incremental sync"} complete: ${result.added} added, ${result.updated} updated, ${result.deleted} deleted.`,
+    `The store now holds ${result.total} transactions (${status.file}).`,
+  ].join("\n");
+}
+
+// --- Queries ---
+
+const MAX_CELL_WIDTH = 60;
+
+export function formatQueryResult(result: QueryResult): string {
+  if (result.rows.length === 0) return "Query returned no rows.";
+
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    if (value instanceof Uint8Array) return `<${value.length} bytes>`;
+    // Drop binary float noise from sums, e.g. 793.3100000000001
+    if (typeof value === "number") return String(Number(value.toPrecision(12)));
+    const text = String(value).replace(/\s+/g, " ");
+    return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+  };
+  const table = [result.columns, ...result.rows.map((row) => row.map(cell))];
+  const widths = result.columns.map((_, i) => Math.max(...table.map((row) => row[i].length)));
+  const line = (row: string[]) => row.map((value, i) => value.padEnd(widths[i])).join(" | ").trimEnd();
+
+  const count = `${result.rows.length} row${result.rows.length === 1 ? "" : "s"}`;
+  return [
+    line(table[0]),
+    widths.map((w) => "-".repeat(w)).join("-|-"),
+    ...table.slice(1).map(line),
+    "",
+    result.truncated ? `${count} (more available — raise max_rows or add LIMIT/aggregation)` : count,
+  ].join("\n");
+}
+
+/** Note appended to tool output while some names cannot be resolved. */
+export function formatCacheNote(health: CacheHealth[]): string | null {
+  const missing = health.filter((h) => !h.loaded && h.error);
+  if (missing.length === 0) return null;
+  const names = missing.map((h) => CACHE_ENTITY_NAMES[h.entity]).join(", ");
+  return `Note: ${names} could not be loaded from Lunch Money (${missing[0].error?.replace(/\.$/, "")}), so they are shown as IDs. The server retries automatically; get_server_status shows cache health.`;
+}
+
+export function formatPolicy(policy: Policy, hiddenTools: string[]): string {
+  if (!policy.source) return "Permission Policy: none (all tools and actions allowed)";
+  const lines = [
+    `Permission Policy (${policy.source}):`,
+    `  Mode: ${policy.readOnly ? "read-only" : "read-write"}`,
+  ];
+  if (policy.allow.length > 0) lines.push(`  Allow: ${policy.allow.join(", ")}`);
+  if (policy.deny.length > 0) lines.push(`  Deny: ${policy.deny.join(", ")}`);
+  if (hiddenTools.length > 0) lines.push(`  Hidden tools: ${hiddenTools.join(", ")}`);
+  return lines.join("\n");
+}
+
 // --- Single entity formatters (for CRUD responses) ---
 
 export function formatCategory(cat: Category): string {
@@ -273,6 +526,46 @@ export function formatBulkUpdateResult(transactions: Transaction[]): string {
   return `${count} transaction${count === 1 ? "" : "s"} updated.\n\n${preview}${more}`;
 }
 
+const CREATE_PREVIEW_LIMIT = 20;
+
+// Why the API skipped a requested transaction, completing "same ... as #id"
+const SKIP_REASONS: Record<string, string> = {
+  duplicate_external_id: "account and external_id",
+  duplicate_payee_amount_date: "date, payee, amount and account",
+};
+
+/**
+ * Transactions created in bulk, one line each, then the requested ones the
+ * API skipped as duplicates. `rowLabel` names a skipped row by its index.
+ */
+export function formatCreateResult(
+  created: Transaction[],
+  skipped: SkippedDuplicate[],
+  rowLabel: (index: number) => string = (i) => `transactions[${i}]`
+): string {
+  const count = created.length;
+  const lines = [
+    `${count} transaction${count === 1 ? "" : "s"} created${skipped.length > 0 ? `, ${skipped.length} skipped as duplicate${skipped.length === 1 ? "" : "s"}` : ""}.`,
+  ];
+  if (count > 0) {
+    lines.push("", ...created.slice(0, CREATE_PREVIEW_LIMIT).map(formatTransactionLine));
+    if (count > CREATE_PREVIEW_LIMIT) lines.push(`... and ${count - CREATE_PREVIEW_LIMIT} more`);
+  }
+  if (skipped.length > 0) {
+    lines.push("", "Skipped:");
+    for (const s of skipped) {
+      const t = s.request_transaction;
+      const row = t
+        ? `${t.date}  ${formatAmount(t.amount, t.currency ?? primaryCurrency())}  ${t.payee ?? "(no payee)"}`
+        : "";
+      const reason = SKIP_REASONS[s.reason ?? ""] ?? "details";
+      const existing = s.existing_transaction_id !== undefined ? ` #${s.existing_transaction_id}` : " an existing transaction";
+      lines.push(`  - ${rowLabel(s.request_transactions_index ?? 0)}: ${row} — same ${reason} as${existing}`);
+    }
+  }
+  return lines.join("\n");
+}
+
 export function formatDeleteResult(
   type: string,
   id: number,
@@ -288,29 +581,253 @@ export function formatDeleteResult(
   return `${type} ${id} deleted successfully.`;
 }
 
+// --- Dry runs ---
+
+const DRY_RUN_PREVIEW_LIMIT = 50;
+
+export function formatDryRun(preview: DryRunPreview): string {
+  const shown = preview.changes.slice(0, DRY_RUN_PREVIEW_LIMIT).map(formatEntityChange);
+  const more =
+    preview.changes.length > DRY_RUN_PREVIEW_LIMIT
+      ? [`... and ${preview.changes.length - DRY_RUN_PREVIEW_LIMIT} more`]
+      : [];
+  const warnings = preview.warnings.map((w) => `Warning: ${w}`);
+  return [
+    `Dry run — nothing was changed. ${preview.summary}`,
+    ...warnings,
+    ...shown,
+    ...more,
+  ].join("\n\n");
+}
+
+function formatEntityChange(change: EntityChange): string {
+  const entity = change.entity.replace(/_/g, " ");
+  const name = `${entity[0].toUpperCase()}${entity.slice(1)}${change.id !== undefined ? ` ${change.id}` : ""}`;
+  const label = change.label ? ` (${change.label})` : "";
+  const header = `${name}${label} — ${change.action}`;
+  if (change.fields.length === 0) return `${header}\n  (no changes)`;
+
+  const lines = change.fields.map(({ field, before, after }) => {
+    if (change.action === "create") {
+      return `  ${field}: ${formatFieldValue(field, after, change.currency)}`;
+    }
+    if (change.action === "delete") {
+      return `  ${field}: ${formatFieldValue(field, before, change.currency)}`;
+    }
+    return `  ${field}: ${formatFieldValue(field, before, change.currency)} → ${formatFieldValue(field, after, change.currency)}`;
+  });
+  return [header, ...lines].join("\n");
+}
+
+/** Render a raw field value with category/tag/account names hydrated. */
+function formatFieldValue(field: string, value: unknown, currency?: string): string {
+  if (field === "category_id" && value === null) return "Uncategorized";
+  if (value === undefined || value === null || value === "") return "(none)";
+  switch (field) {
+    case "category_id":
+    case "group_id":
+      return `${categoryName(value as number)} (#${value})`;
+    case "tag_ids": {
+      const ids = value as number[];
+      return ids.length > 0 ? tagNames(ids).join(", ") : "(none)";
+    }
+    case "manual_account_id":
+      return `${accountName(value as number, null)} (#${value})`;
+    case "plaid_account_id":
+      return `${accountName(null, value as number)} (#${value})`;
+    case "amount":
+    case "balance":
+      return currency ? formatAmount(value as string | number, currency) : String(value);
+    default:
+      return typeof value === "string" ? value : JSON.stringify(value);
+  }
+}
+
+// --- Journal ---
+
+export interface UndoResult {
+  entry: number;
+  status: "undone" | "planned" | "skipped" | "failed";
+  message: string;
+}
+
+const JOURNAL_NOUNS: Record<string, string> = {
+  manage_transaction: "transaction",
+  bulk_update_transactions: "transaction",
+  create_transactions: "transaction",
+  import_transactions: "transaction",
+  split_transaction: "transaction",
+  group_transactions: "transaction",
+  manage_category: "category",
+  manage_tag: "tag",
+  manage_account: "account",
+};
+
+export function formatJournal(
+  entries: JournalEntry[],
+  undoneBy: Map<number, number>,
+  total: number
+): string {
+  if (entries.length === 0) return "No changes recorded for this profile yet.";
+  const lines = entries.map((e) => {
+    const flags: string[] = [];
+    const undoId = undoneBy.get(e.id);
+    if (undoId !== undefined) flags.push(`undone by #${undoId}`);
+    if (e.irreversible && e.undoes === undefined) flags.push(`irreversible: ${e.irreversible}`);
+    const time = e.timestamp.slice(0, 16).replace("T", " ");
+    const suffix = flags.length > 0 ? `  [${flags.join("; ")}]` : "";
+    return `#${e.id}  ${time}  ${describeJournalEntry(e)}${suffix}`;
+  });
+  return `Showing ${entries.length} of ${total} recorded change${total === 1 ? "" : "s"}, newest first.\n\n${lines.join("\n")}`;
+}
+
+export function describeJournalEntry(e: JournalEntry): string {
+  if (e.undoes !== undefined) return `undo_changes — reverted #${e.undoes}`;
+  const noun = JOURNAL_NOUNS[e.tool] ?? "item";
+  const target = (e.after ?? e.before) as { id?: number } | unknown[] | null;
+  let subject = noun;
+  if (Array.isArray(target)) subject = `${target.length} ${noun}${target.length === 1 ? "" : "s"}`;
+  else if (target?.id !== undefined) subject = `${noun} ${target.id}`;
+  const fields = e.action === "update" && !Array.isArray(target) ? writtenFields(e.args) : [];
+  return `${e.tool} ${e.action} — ${subject}${fields.length > 0 ? ` (${fields.join(", ")})` : ""}`;
+}
+
+export function formatUndoResults(results: UndoResult[]): string {
+  if (results.length === 0) return "Nothing to undo for this profile.";
+  const verbs: Record<UndoResult["status"], string> = {
+    undone: "Undid",
+    planned: "Would undo",
+    skipped: "Skipped",
+    failed: "Failed to undo",
+  };
+  return results.map((r) => `${verbs[r.status]} #${r.entry}: ${r.message}`).join("\n");
+}
+
+// --- Tables, CSV and JSON ---
+
+export const OUTPUT_FORMATS = ["text", "table", "csv", "json"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+// Columns shown by default in table, CSV and JSON output
+export const TRANSACTION_COLUMNS = ["date", "payee", "amount", "currency", "category", "account", "tags", "status", "id"];
+export const CATEGORY_COLUMNS = ["name", "group", "is_group", "is_income", "exclude_from_budget", "exclude_from_totals", "archived", "id"];
+export const TAG_COLUMNS = ["name", "description", "archived", "id"];
+export const ACCOUNT_COLUMNS = ["name", "source", "institution_name", "type", "subtype", "balance", "currency", "status", "id"];
+export const SUMMARY_COLUMNS = ["category", "category_group", "activity", "budgeted", "available", "category_id"];
+export const RECURRING_COLUMNS = ["payee", "description", "amount", "currency", "granularity", "quantity", "category", "account", "id"];
+
+/**
+ * Render rows as a compact markdown table, CSV (RFC 4180) or a JSON array,
+ * keeping only `columns`, in that order.
+ */
+export function formatRows(
+  rows: object[],
+  columns: string[],
+  format: Exclude<OutputFormat, "text">
+): string {
+  const values = rows.map((row) => columns.map((c) => (row as Record<string, unknown>)[c]));
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        values.map((row) => Object.fromEntries(row.map((value, i) => [columns[i], value ?? null]))),
+        null,
+        2
+      );
+    case "csv":
+      return [columns, ...values.map((row) => row.map(cellText))]
+        .map((row) => row.map(csvField).join(","))
+        .join("\n");
+    case "table": {
+      const line = (row: string[]) => `| ${row.join(" | ")} |`;
+      return [
+        line(columns),
+        line(columns.map(() => "---")),
+        ...values.map((row) => line(row.map((v) => cellText(v).replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")))),
+      ].join("\n");
+    }
+  }
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value) && value.every((v) => typeof v !== "object")) return value.join(", ");
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// --- Errors ---
+
+export function formatError(report: ErrorReport): string {
+  const lines = [`Error: ${report.message}`];
+  if (report.status !== undefined) {
+    lines.push(`  Status: ${report.status} (${report.code})`);
+  }
+  if (report.field) lines.push(`  Argument: ${report.field}`);
+  if (report.api_message && report.api_message !== report.message) {
+    lines.push(`  API message: ${report.api_message}`);
+  }
+  for (const e of report.errors ?? []) {
+    lines.push(`  - ${e.field ? `${e.field}: ` : ""}${e.message}`);
+  }
+  if (report.candidates) {
+    lines.push("  Candidates:", ...report.candidates.map((c) => `  - ${c}`));
+  }
+  if (report.suggestion) lines.push(`  Fix: ${report.suggestion}`);
+  if (report.request_id) lines.push(`  Request ID: ${report.request_id}`);
+  if (report.attempts) lines.push(`  Attempts: ${report.attempts}`);
+  return lines.join("\n");
+}
+
 // --- Helpers ---
 
+// LUNCHMONEY_LOCALE picks number formatting, e.g. "de-DE" for 1.234,56 €
+const LOCALE = resolveLocale(process.env.LUNCHMONEY_LOCALE?.trim());
+const currencyFormats = new Map<string, Intl.NumberFormat>();
+
+function resolveLocale(locale: string | undefined): string {
+  if (!locale) return "en-US";
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale)[0] ?? "en-US";
+  } catch {
+    console.error(`Ignoring invalid LUNCHMONEY_LOCALE "${locale}"; using en-US.`);
+    return "en-US";
+  }
+}
+
+/**
+ * An amount in `currency`, with its symbol and decimal places (none for
+ * JPY, three for KWD). Codes Intl does not know fall back to "12.34 XYZ".
+ */
 function formatAmount(amount: string | number, currency: string): string {
   const num = typeof amount === "string" ? parseFloat(amount) : amount;
-  const sym = currencySymbol(currency);
-  const abs = Math.abs(num).toFixed(2);
-  return num < 0 ? `-${sym}${abs}` : `${sym}${abs}`;
+  const code = currency.toUpperCase();
+  let format = currencyFormats.get(code);
+  if (!format) {
+    try {
+      format = new Intl.NumberFormat(LOCALE, { style: "currency", currency: code });
+    } catch {
+      return `${num.toFixed(2)} ${code}`;
+    }
+    currencyFormats.set(code, format);
+  }
+  return format.format(num);
 }
 
+/** An amount in the budget's primary currency, e.g. summary totals. */
 function formatCurrency(amount: number): string {
-  const abs = Math.abs(amount).toFixed(2);
-  return amount < 0 ? `-$${abs}` : `$${abs}`;
-}
-
-function currencySymbol(code: string): string {
-  const symbols: Record<string, string> = {
-    usd: "$",
-    eur: "€",
-    gbp: "£",
-    jpy: "¥",
-    cad: "CA$",
-    aud: "A$",
-    chf: "CHF ",
-  };
-  return symbols[code.toLowerCase()] ?? `${code.toUpperCase()} `;
+  return formatAmount(amount, primaryCurrency());
+}
+
+/** " (≈ $13.10)" for an amount not in the primary currency, else "". */
+function formatBaseAmount(toBase: number | null | undefined, currency: string): string {
+  const primary = primaryCurrency();
+  if (toBase == null || currency.toLowerCase() === primary) return "";
+  return ` (≈ ${formatAmount(toBase, primary)})`;
+}
+
+function primaryCurrency(): string {
+  return cachedUser()?.primary_currency ?? "usd";
 }
@@ -0,0 +1,229 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { dropCache } from "./cache.js";
+import { runInContext, SESSION_TOKEN_HEADER, type ApiContext } from "./context.js";
+import { createSessionContext, profileNames } from "./profiles.js";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  /** Bearer secret clients must send; required unless bound to loopback */
+  secret?: string;
+  /** Reject sessions that do not send their own Lunch Money token */
+  requireSessionToken: boolean;
+  /** Close sessions idle for longer than this */
+  sessionIdleMs: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  /** Set when the session brought its own token */
+  context?: ApiContext;
+  lastActive: number;
+}
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "localhost", "::1"]);
+
+export function httpOptionsFromEnv(): HttpOptions {
+  return {
+    host: process.env.LUNCHMONEY_MCP_HOST ?? "127.0.0.1",
+    port: Number(process.env.LUNCHMONEY_MCP_PORT ?? 3000),
+    secret: process.env.LUNCHMONEY_MCP_SECRET || undefined,
+    requireSessionToken: ["1", "true"].includes(
+      process.env.LUNCHMONEY_MCP_REQUIRE_SESSION_TOKEN ?? ""
+    ),
+    sessionIdleMs: Number(process.env.LUNCHMONEY_MCP_SESSION_IDLE_MS ?? 30 * 60_000),
+  };
+}
+
+/**
+ * Serve MCP over streamable HTTP at `/mcp`, with one MCP server per session
+ * and an unauthenticated `/health` endpoint for load balancers. A session
+ * may send its own Lunch Money token at initialization; it then gets a
+ * private client and cache and never sees the configured profiles.
+ */
+export function startHttpServer(
+  createMcpServer: () => McpServer,
+  options: HttpOptions
+): Server {
+  if (!options.secret && !LOOPBACK_HOSTS.has(options.host)) {
+    throw new Error(
+      `Refusing to listen on ${options.host} without LUNCHMONEY_MCP_SECRET. Set a secret or bind to 127.0.0.1.`
+    );
+  }
+
+  const allowedHosts = LOOPBACK_HOSTS.has(options.host) ? loopbackHosts(options.port) : undefined;
+  const sessions = new Map<string, Session>();
+
+  const closeSession = (id: string): void => {
+    const session = sessions.get(id);
+    if (!session) return;
+    sessions.delete(id);
+    if (session.context) dropCache(session.context.key);
+    void session.transport.close();
+  };
+
+  const evictIdle = setInterval(() => {
+    const cutoff = Date.now() - options.sessionIdleMs;
+    for (const [id, session] of sessions) {
+      if (session.lastActive < cutoff) closeSession(id);
+    }
+  }, Math.min(options.sessionIdleMs, 60_000));
+  evictIdle.unref();
+
+  const server = createServer(async (req, res) => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (path === "/health" && req.method === "GET") {
+      sendJson(res, 200, { status: "ok", sessions: sessions.size });
+      return;
+    }
+    if (path !== "/mcp") {
+      sendJson(res, 404, { error: "Not found" });
+      return;
+    }
+    // A browser page whose name was rebound to 127.0.0.1 still sends its own Host and Origin
+    if (allowedHosts && !sameHost(req, allowedHosts)) {
+      sendJsonRpcError(res, 403, "Forbidden: Host or Origin header does not name this server");
+      return;
+    }
+    if (!authorized(req, options.secret)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJsonRpcError(res, 401, "Unauthorized: missing or invalid bearer secret");
+      return;
+    }
+
+    try {
+      let body: unknown;
+      if (req.method === "POST") {
+        try {
+          body = await readJson(req);
+        } catch {
+          sendJsonRpcError(res, 400, "Parse error: request body is not valid JSON", -32700);
+          return;
+        }
+      }
+
+      const sessionId = req.headers["mcp-session-id"] as string | undefined;
+      let session = sessionId ? sessions.get(sessionId) : undefined;
+
+      if (!session) {
+        if (sessionId) {
+          sendJsonRpcError(res, 404, "Session not found");
+          return;
+        }
+        if (req.method !== "POST" || !isInitializeRequest(body)) {
+          sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+          return;
+        }
+
+        const token = headerValue(req, SESSION_TOKEN_HEADER);
+        if (!token && (options.requireSessionToken || profileNames().length === 0)) {
+          sendJsonRpcError(res, 401, `Unauthorized: send your Lunch Money token in the ${SESSION_TOKEN_HEADER} header`);
+          return;
+        }
+
+        // Known up front so the session's cache key can be derived from it
+        const id = randomUUID();
+        const transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => id,
+          onsessioninitialized: () => {
+            sessions.set(id, created);
+          },
+        });
+        const created: Session = {
+          transport,
+          context: token ? createSessionContext(id, token) : undefined,
+          lastActive: Date.now(),
+        };
+        transport.onclose = () => closeSession(id);
+
+        // Registered inside the session's context so tools omit `profile`
+        const mcpServer = inSession(created, createMcpServer);
+        await mcpServer.connect(transport);
+        session = created;
+      }
+
+      session.lastActive = Date.now();
+      const active = session;
+      await inSession(active, () => active.transport.handleRequest(req, res, body));
+    } catch (err) {
+      console.error("Error handling MCP request:", err);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, "Internal server error", -32603);
+      }
+    }
+  });
+
+  server.on("close", () => clearInterval(evictIdle));
+  server.listen(options.port, options.host);
+  return server;
+}
+
+function inSession<T>(session: Session, fn: () => T): T {
+  return session.context ? runInContext(session.context, fn) : fn();
+}
+
+function headerValue(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+/** The Host header values a loopback bind answers to, with and without the port. */
+function loopbackHosts(port: number): Set<string> {
+  const names = ["127.0.0.1", "localhost", "[::1]"];
+  return new Set([...names, ...names.map((name) => `${name}:${port}`)]);
+}
+
+function sameHost(req: IncomingMessage, allowedHosts: Set<string>): boolean {
+  if (!allowedHosts.has(req.headers.host ?? "")) return false;
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  try {
+    const url = new URL(origin);
+    return url.protocol === "http:" && allowedHosts.has(url.host);
+  } catch {
+    return false;
+  }
+}
+
+function authorized(req: IncomingMessage, secret: string | undefined): boolean {
+  if (!secret) return true;
+  const header = req.headers.authorization ?? "";
+  const given = Buffer.from(header.replace(/^Bearer\s+/i, ""));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  code = -32000
+): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code, message },
+    id: null,
+  });
+}
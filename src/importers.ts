@@ -0,0 +1,455 @@
+// Bank statement parsers for import_transactions: CSV with a column mapping,
+// OFX/QFX and QIF. Amounts come out in Lunch Money's sign convention
+// (positive = debit), dates as YYYY-MM-DD.
+
+export const STATEMENT_FORMATS = ["csv", "ofx", "qif"] as const;
+export type StatementFormat = (typeof STATEMENT_FORMATS)[number];
+
+/** One transaction read from a statement. */
+export interface StatementRow {
+  date: string;
+  amount: number;
+  payee: string;
+  notes?: string;
+  /** FITID in OFX, or the CSV column mapped to it */
+  external_id?: string;
+  /** Line of the file the transaction starts on */
+  line: number;
+}
+
+export interface Statement {
+  format: StatementFormat;
+  rows: StatementRow[];
+  /** Currency the statement declares (OFX CURDEF), lowercase */
+  currency?: string;
+}
+
+/** A CSV column by header name, or by 0-based index. */
+export type CsvColumn = string | number;
+
+export interface CsvColumns {
+  date?: CsvColumn;
+  amount?: CsvColumn;
+  /** Separate money-out and money-in columns, instead of `amount` */
+  debit?: CsvColumn;
+  credit?: CsvColumn;
+  payee?: CsvColumn;
+  notes?: CsvColumn;
+  external_id?: CsvColumn;
+}
+
+export interface StatementOptions {
+  /** CSV and QIF date layout, e.g. "DD.MM.YYYY"; ISO dates are read without one */
+  date_format?: string;
+  decimal_separator?: "." | ",";
+  /** Whether a negative amount in the file is money out (the bank convention) or money in */
+  amount_sign?: "negative_debit" | "positive_debit";
+  columns?: CsvColumns;
+  /** CSV field separator; detected from the header line when unset */
+  delimiter?: string;
+  has_header?: boolean;
+  /** Lines before the CSV header, e.g. an account summary */
+  skip_rows?: number;
+}
+
+/**
+ * A statement that cannot be read with the options given. The message never
+ * quotes the file; text from it that would help (the header, the cell that
+ * failed) is kept in `excerpt`, for callers that supplied the text themselves.
+ */
+export class StatementError extends Error {
+  constructor(
+    message: string,
+    public field: string,
+    public suggestion: string,
+    public excerpt?: string
+  ) {
+    super(message);
+    this.name = "StatementError";
+  }
+}
+
+/** Statement text from file bytes: UTF-8 (BOM dropped), else Windows-1252. */
+export function decodeStatement(bytes: Uint8Array): string {
+  let text: string;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    text = new TextDecoder("windows-1252").decode(bytes);
+  }
+  return text.replace(/^\uFEFF/, "");
+}
+
+/** The format of a statement, from its file extension or else its content. */
+export function detectFormat(text: string, fileName?: string): StatementFormat {
+  const extension = fileName?.toLowerCase().match(/\.([a-z]+)$/)?.[1];
+  if (extension === "ofx" || extension === "qfx") return "ofx";
+  if (extension === "qif") return "qif";
+  if (extension === "csv" || extension === "tsv" || extension === "txt") return "csv";
+  const head = text.trimStart().slice(0, 1000);
+  if (/^OFXHEADER:|<OFX>|<\?OFX/i.test(head)) return "ofx";
+  if (/^!(Type|Account|Option)/i.test(head)) return "qif";
+  return "csv";
+}
+
+export function parseStatement(
+  text: string,
+  format: StatementFormat,
+  options: StatementOptions = {}
+): Statement {
+  switch (format) {
+    case "csv":
+      return { format, rows: parseCsvStatement(text, options) };
+    case "ofx":
+      return parseOfx(text);
+    case "qif":
+      return { format, rows: parseQif(text, options) };
+  }
+}
+
+// --- CSV ---
+
+// Header names each field is recognized by when no column mapping is given
+const CSV_HEADERS: Record<keyof CsvColumns, string[]> = {
+  date: ["date", "transaction date", "posting date", "posted date", "booking date", "value date"],
+  amount: ["amount", "transaction amount", "value"],
+  debit: ["debit", "debit amount", "out", "withdrawal", "withdrawals", "money out", "paid out", "outflow"],
+  credit: ["credit", "credit amount", "in", "deposit", "deposits", "money in", "paid in", "inflow"],
+  payee: ["payee", "description", "name", "merchant", "counterparty", "details", "transaction description"],
+  notes: ["memo", "notes", "note"],
+  external_id: ["id", "transaction id", "fitid"],
+};
+
+function parseCsvStatement(text: string, options: StatementOptions): StatementRow[] {
+  const lines = text.split(/\r?\n/);
+  const skip = options.skip_rows ?? 0;
+  const body = lines.slice(skip).join("\n");
+  const delimiter = options.delimiter ?? detectDelimiter(lines[skip] ?? "");
+  const records = parseCsv(body, delimiter);
+  const hasHeader = options.has_header ?? true;
+  const header = hasHeader ? records.shift()?.fields ?? [] : [];
+  const columns = csvColumns(header, hasHeader, options.columns);
+  const sign = options.amount_sign === "positive_debit" ? 1 : -1;
+
+  const rows: StatementRow[] = [];
+  for (const { fields, line: offset } of records) {
+    if (fields.every((f) => f.trim() === "")) continue;
+    const line = skip + offset;
+    const cell = (column: number | undefined) => (column === undefined ? "" : (fields[column] ?? "").trim());
+    const date = parseDate(cell(columns.date), options.date_format, line);
+
+    let amount: number;
+    if (columns.amount !== undefined) {
+      amount = sign * parseAmount(cell(columns.amount), options.decimal_separator, line);
+    } else {
+      const debit = cell(columns.debit);
+      const credit = cell(columns.credit);
+      amount = debit
+        ? Math.abs(parseAmount(debit, options.decimal_separator, line))
+        : -Math.abs(parseAmount(credit, options.decimal_separator, line));
+    }
+
+    rows.push({
+      date,
+      amount,
+      payee: cell(columns.payee),
+      notes: cell(columns.notes) || undefined,
+      external_id: cell(columns.external_id) || undefined,
+      line,
+    });
+  }
+  return rows;
+}
+
+/** The separator used most often in the header line, outside quotes. */
+function detectDelimiter(header: string): string {
+  const unquoted = header.replace(/"[^"]*"/g, "");
+  const counts = [",", ";", "\t", "|"].map((d) => ({ d, n: unquoted.split(d).length - 1 }));
+  const best = counts.reduce((a, b) => (b.n > a.n ? b : a));
+  return best.n > 0 ? best.d : ",";
+}
+
+/** RFC 4180 records: quoted fields may hold separators, quotes ("") and newlines. */
+function parseCsv(text: string, delimiter: string): { fields: string[]; line: number }[] {
+  const records: { fields: string[]; line: number }[] = [];
+  let fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let start = 1;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        if (c === "\n") line++;
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      fields.push(field);
+      field = "";
+    } else if (c === "\n") {
+      fields.push(field);
+      records.push({ fields, line: start });
+      fields = [];
+      field = "";
+      start = ++line;
+    } else if (c !== "\r") {
+      field += c;
+    }
+  }
+  if (field !== "" || fields.length > 0) {
+    fields.push(field);
+    records.push({ fields, line: start });
+  }
+  return records;
+}
+
+/** Column indexes of the mapped fields, by header name, index or known header names. */
+function csvColumns(
+  header: string[],
+  hasHeader: boolean,
+  mapping: CsvColumns = {}
+): Partial<Record<keyof CsvColumns, number>> {
+  const names = header.map(normalizeHeader);
+  const excerpt = hasHeader ? `Columns in the file: ${header.join(", ")}.` : undefined;
+  const columns: Partial<Record<keyof CsvColumns, number>> = {};
+
+  // Amount columns are recognized by header only if none of them is mapped
+  const amountMapped = ["amount", "debit", "credit"].some((k) => mapping[k as keyof CsvColumns] !== undefined);
+  for (const key of Object.keys(CSV_HEADERS) as (keyof CsvColumns)[]) {
+    const wanted = mapping[key];
+    if (typeof wanted === "number") {
+      columns[key] = wanted;
+    } else if (wanted !== undefined) {
+      const index = names.indexOf(normalizeHeader(wanted));
+      if (!hasHeader || index < 0) {
+        throw new StatementError(
+          `no column "${wanted}" for ${key} in the CSV header.`,
+          `columns.${key}`,
+          hasHeader ? "Use a header name from the file's first row, or a 0-based index." : "Give columns as 0-based indexes.",
+          excerpt
+        );
+      }
+      columns[key] = index;
+    } else if (hasHeader && !(amountMapped && ["amount", "debit", "credit"].includes(key))) {
+      const index = CSV_HEADERS[key].map((h) => names.indexOf(h)).find((i) => i >= 0);
+      if (index !== undefined) columns[key] = index;
+    }
+  }
+
+  // A single amount column wins over debit/credit headers found next to it
+  if (columns.amount !== undefined && mapping.debit === undefined && mapping.credit === undefined) {
+    delete columns.debit;
+    delete columns.credit;
+  }
+  const missing = [
+    columns.date === undefined ? "date" : undefined,
+    columns.amount === undefined && columns.debit === undefined && columns.credit === undefined ? "amount" : undefined,
+    columns.payee === undefined ? "payee" : undefined,
+  ].filter((k): k is string => k !== undefined);
+  if (missing.length > 0) {
+    throw new StatementError(
+      `cannot tell which CSV column holds ${missing.join(" and ")}.`,
+      "columns",
+      `Map them in columns, e.g. {"date": "Booking Date", "amount": "Amount", "payee": "Description"}${hasHeader ? "" : ", as 0-based indexes"}.`,
+      excerpt
+    );
+  }
+  return columns;
+}
+
+function normalizeHeader(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+// --- OFX / QFX ---
+
+function parseOfx(text: string): Statement {
+  const blocks = text.split(/<STMTTRN>/i).slice(1);
+  if (blocks.length === 0) {
+    throw new StatementError(
+      "no transactions (<STMTTRN>) found in the OFX file.",
+      "format",
+      'Check that this is a bank or credit card statement, or pass format="csv" or "qif".'
+    );
+  }
+  let next = text.slice(0, text.search(/<STMTTRN>/i)).split("\n").length;
+  const rows = blocks.map((raw) => {
+    const block = raw.split(/<\/STMTTRN>/i)[0];
+    const line = next;
+    next += raw.split("\n").length - 1;
+    const posted = ofxTag(block, "DTPOSTED") ?? "";
+    const date = /^\d{8}/.test(posted)
+      ? `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`
+      : invalidDate(posted, line);
+    // Some banks write the decimal comma of their locale
+    const trnamt = ofxTag(block, "TRNAMT") ?? "";
+    const amount = -parseAmount(trnamt, /,\d+$/.test(trnamt) && !trnamt.includes(".") ? "," : ".", line);
+    const name = ofxTag(block, "NAME");
+    const memo = ofxTag(block, "MEMO");
+    return {
+      date,
+      amount,
+      payee: name ?? memo ?? ofxTag(block, "TRNTYPE") ?? "",
+      notes: name && memo && memo !== name ? memo : undefined,
+      external_id: ofxTag(block, "FITID"),
+      line,
+    };
+  });
+  return { format: "ofx", rows, currency: ofxTag(text, "CURDEF")?.toLowerCase() };
+}
+
+/** Value of an OFX element; SGML files leave elements unclosed. */
+function ofxTag(block: string, tag: string): string | undefined {
+  const value = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, "i"))?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+// --- QIF ---
+
+function parseQif(text: string, options: StatementOptions): StatementRow[] {
+  const lines = text.split(/\r?\n/);
+  const format = options.date_format ?? "MM/DD/YYYY";
+  const rows: StatementRow[] = [];
+  let record: Record<string, string> = {};
+  let start = 0;
+
+  for (const [i, raw] of lines.entries()) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith("!")) {
+      if (/^!Type:(Invst|Cat|Class|Memorized|Prices)/i.test(line)) {
+        throw new StatementError(
+          `line ${i + 1}: this QIF section holds no bank transactions.`,
+          "format",
+          "Export a bank, cash or credit card account (!Type:Bank, !Type:Cash, !Type:CCard).",
+          `Section: ${line}.`
+        );
+      }
+      continue;
+    }
+    if (line === "^") {
+      if (record.D !== undefined) {
+        rows.push({
+          date: parseDate(record.D, format, start),
+          amount: -parseAmount(record.T ?? record.U ?? "", options.decimal_separator, start),
+          payee: record.P ?? record.M ?? "",
+          notes: [record.N ? `#${record.N}` : undefined, record.P ? record.M : undefined]
+            .filter(Boolean)
+            .join(" ") || undefined,
+          line: start,
+        });
+      }
+      record = {};
+      continue;
+    }
+    if (Object.keys(record).length === 0) start = i + 1;
+    const code = line[0];
+    // Split lines (S, E, $) repeat per part; only the first of a code counts
+    if (!(code in record)) record[code] = line.slice(1).trim();
+  }
+  return rows;
+}
+
+// --- Dates and amounts ---
+
+/**
+ * A date as YYYY-MM-DD. ISO dates are always accepted; others are read by
+ * the order of YYYY/YY, MM/M and DD/D in `format`, ignoring its separators,
+ * so "MM/DD/YY" also reads QIF's "1/ 5'24".
+ */
+function parseDate(value: string, format: string | undefined, line: number): string {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return checkedDate(Number(iso[1]), Number(iso[2]), Number(iso[3]), value, line);
+  if (!format) {
+    throw new StatementError(
+      `line ${line}: the date is not YYYY-MM-DD.`,
+      "date_format",
+      'Pass date_format with the file\'s layout, e.g. "MM/DD/YYYY", "DD/MM/YYYY" or "DD.MM.YYYY".',
+      `Found "${value}".`
+    );
+  }
+
+  const order = format.toUpperCase().match(/Y+|M+|D+/g) ?? [];
+  let parts: string[] = value.match(/\d+/g) ?? [];
+  // Dates without separators, e.g. 20250131 for "YYYYMMDD"
+  if (parts.length === 1 && order.length === 3) {
+    const widths = order.map((t) => (t[0] === "Y" ? Math.max(t.length, 2) : 2));
+    const digits = parts[0];
+    let at = 0;
+    parts = widths.map((w) => digits.slice(at, (at += w)));
+  }
+  const complete = ["Y", "M", "D"].every((k) => order.some((t) => t[0] === k));
+  if (parts.length !== 3 || order.length !== 3 || !complete) return invalidDate(value, line, format);
+  const get = (token: string) => parts[order.findIndex((t) => t[0] === token)];
+  const year = get("Y");
+  return checkedDate(
+    year.length <= 2 ? 2000 + Number(year) : Number(year),
+    Number(get("M")),
+    Number(get("D")),
+    value,
+    line,
+    format
+  );
+}
+
+function checkedDate(year: number, month: number, day: number, value: string, line: number, format?: string): string {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return invalidDate(value, line, format);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function invalidDate(value: string, line: number, format?: string): never {
+  throw new StatementError(
+    `line ${line}: cannot read the date${format ? ` as ${format}` : ""}.`,
+    "date_format",
+    'Pass date_format matching the file, e.g. "DD/MM/YYYY" instead of "MM/DD/YYYY".',
+    `Found "${value}".`
+  );
+}
+
+/**
+ * An amount as written in a statement: currency symbols and spaces are
+ * dropped, and a leading or trailing minus or parentheses make it negative.
+ * Thousands separators must group three digits, so "12,50" is not read as
+ * 1250 when the decimal separator is ".".
+ */
+function parseAmount(value: string, decimal: "." | "," = ".", line: number): number {
+  const negative = /^\(.*\)$/.test(value) || /^[^\d]*-|-$/.test(value.trim());
+  const digits = value.replace(/[^\d.,]/g, "");
+  const [d, t] = decimal === "." ? ["\\.", ","] : [",", "\\."];
+  if (!/\d/.test(digits) || !new RegExp(`^(\\d{1,3}(${t}\\d{3})+|\\d*)(${d}\\d*)?$`).test(digits)) {
+    // Digits with stray separators suggest the other decimal convention
+    const separators = /\d[.,]\d/.test(value);
+    throw new StatementError(
+      `line ${line}: cannot read the amount.`,
+      separators ? "decimal_separator" : "columns",
+      separators
+        ? `Pass decimal_separator="${decimal === "." ? "," : "."}" if the file writes amounts like ${decimal === "." ? "1.234,56" : "1,234.56"}.`
+        : "Check which column is mapped to the amount.",
+      `Found "${value}".`
+    );
+  }
+  const normalized = decimal === "," ? digits.replace(/\./g, "").replace(",", ".") : digits.replace(/,/g, "");
+  const amount = Number(normalized);
+  return negative ? -amount : amount;
+}
@@ -2,8 +2,11 @@
 
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { assertToken } from "./client.js";
+import { logTransportMode } from "./client.js";
+import { assertProfiles, profileNames } from "./profiles.js";
+import { logPolicy } from "./policy.js";
 import { initCache } from "./cache.js";
+import { httpOptionsFromEnv, startHttpServer } from "./http.js";
 import { registerUserTools } from "./tools/user.js";
 import { registerTransactionTools } from "./tools/transactions.js";
 import { registerCategoryTools } from "./tools/categories.js";
@@ -11,10 +14,19 @@ import { registerTagTools } from "./tools/tags.js";
 import { registerAccountTools } from "./tools/accounts.js";
 import { registerSummaryTools } from "./tools/summary.js";
 import { registerRecurringTools } from "./tools/recurring.js";
+import { registerStatusTools } from "./tools/status.js";
+import { registerProfileTools } from "./tools/profiles.js";
+import { registerJournalTools } from "./tools/journal.js";
+import { registerImportTools } from "./tools/import.js";
+import { registerStoreTools } from "./tools/store.js";
+import { registerQueryTools } from "./tools/query.js";
+import { logStore, storeConfigured } from "./store.js";
 
-async function main(): Promise<void> {
-  assertToken();
+const useHttp =
+  process.argv.includes("--http") ||
+  process.env.LUNCHMONEY_MCP_TRANSPORT?.toLowerCase() === "http";
 
+function createServer(): McpServer {
   const server = new McpServer({
     name: "lunchmoney-mcp-v2",
     version: "0.1.0",
@@ -28,18 +40,49 @@ async function main(): Promise<void> {
   registerAccountTools(server);
   registerSummaryTools(server);
   registerRecurringTools(server);
+  registerStatusTools(server);
+  registerProfileTools(server);
+  registerJournalTools(server);
+  registerImportTools(server);
+  if (storeConfigured) {
+    registerStoreTools(server);
+    registerQueryTools(server);
+  }
+
+  return server;
+}
+
+async function main(): Promise<void> {
+  logTransportMode();
+  logPolicy();
+  logStore();
+  // A hosted HTTP server may rely entirely on per-session tokens
+  const sessionTokensOnly = useHttp && profileNames().length === 0;
+  if (!sessionTokensOnly) assertProfiles();
+
+  // Initialize the default profile's cache (categories, tags, accounts).
+  // Entities that fail to load are retried when a tool next needs them.
+  if (!sessionTokensOnly) await initCache();
 
-  // Initialize cache (categories, tags, accounts)
-  try {
-    await initCache();
-  } catch (err) {
-    console.error("Failed to initialize cache:", err);
-    console.error("Continuing without cache — some features may show IDs instead of names.");
+  if (useHttp) {
+    // Each HTTP session gets its own server instance
+    const options = httpOptionsFromEnv();
+    const http = startHttpServer(createServer, options);
+    http.on("listening", () => {
+      console.error(
+        `lunchmoney-mcp-v2 server running on http://${options.host}:${options.port}/mcp`
+      );
+    });
+    http.on("error", (err) => {
+      console.error("Fatal error:", err);
+      process.exit(1);
+    });
+    return;
   }
 
   // Connect via stdio
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
 
   console.error("lunchmoney-mcp-v2 server running on stdio");
 }
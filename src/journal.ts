@@ -0,0 +1,101 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { currentContext } from "./context.js";
+
+/** One mutation made through the server, as written to the journal. */
+export interface JournalEntry {
+  id: number;
+  timestamp: string;
+  /** Profile name, or `session:<id>` for HTTP sessions with their own token */
+  context: string;
+  tool: string;
+  action: string;
+  args: Record<string, unknown>;
+  /** State fetched before the write; null for creations */
+  before: unknown;
+  /** State returned by the API; null for deletions */
+  after: unknown;
+  /** Why the change cannot be undone, if it cannot */
+  irreversible?: string;
+  /** Id of the entry this one reverted */
+  undoes?: number;
+}
+
+export type NewJournalEntry = Omit<JournalEntry, "id" | "timestamp" | "context">;
+
+// LUNCHMONEY_JOURNAL is a file path, or "off" to disable journaling
+const setting = process.env.LUNCHMONEY_JOURNAL?.trim();
+export const journalEnabled = setting !== "off";
+export const journalFile =
+  setting && setting !== "off"
+    ? setting
+    : join(homedir(), ".lunchmoney-mcp", "journal.jsonl");
+
+/**
+ * Fetch the state a write is about to change, so it can be journaled.
+ * Skipped when journaling is off.
+ */
+export async function captureBefore<T>(fetch: () => Promise<T>): Promise<T | null> {
+  return journalEnabled ? fetch() : null;
+}
+
+// Id of the newest entry, read from the file once and then tracked in memory
+let lastId: number | undefined;
+
+/**
+ * Append a mutation to the journal. The write already happened, so a
+ * journal failure is logged rather than failing the tool call.
+ */
+export function recordMutation(entry: NewJournalEntry): JournalEntry | null {
+  if (!journalEnabled) return null;
+  try {
+    const full: JournalEntry = {
+      id: (lastId ??= readJournal().at(-1)?.id ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      context: currentContext().key,
+      ...entry,
+    };
+    mkdirSync(dirname(journalFile), { recursive: true });
+    appendFileSync(journalFile, JSON.stringify(full) + "\n", { mode: 0o600 });
+    lastId = full.id;
+    return full;
+  } catch (err) {
+    console.error("Failed to write mutation journal:", err);
+    return null;
+  }
+}
+
+// Tool arguments that select or control a write rather than set a field
+const CONTROL_ARGS = new Set(["action", "id", "ids", "dry_run", "force"]);
+
+/** Fields an update entry wrote, per its tool arguments. */
+export function writtenFields(args: Record<string, unknown>): string[] {
+  return Object.keys(args).filter((key) => !CONTROL_ARGS.has(key));
+}
+
+/** All journal entries, oldest first. Unreadable lines are skipped. */
+export function readJournal(): JournalEntry[] {
+  if (!existsSync(journalFile)) return [];
+  const entries: JournalEntry[] = [];
+  for (const line of readFileSync(journalFile, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      // A torn write from a crashed process; later entries are still valid
+    }
+  }
+  return entries;
+}
+
+/** Entries made against the current profile/session, with undo state. */
+export function contextJournal(): { entries: JournalEntry[]; undoneBy: Map<number, number> } {
+  const key = currentContext().key;
+  const entries = readJournal().filter((e) => e.context === key);
+  const undoneBy = new Map<number, number>();
+  for (const entry of entries) {
+    if (entry.undoes !== undefined) undoneBy.set(entry.undoes, entry.id);
+  }
+  return { entries, undoneBy };
+}
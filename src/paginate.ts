@@ -0,0 +1,46 @@
+import { api, handleError } from "./client.js";
+import type { components, paths } from "./types.js";
+
+type Transaction = components["schemas"]["transactionObject"];
+type TransactionQuery = NonNullable<paths["/transactions"]["get"]["parameters"]["query"]>;
+
+// Transactions requested per page; the API accepts up to 2000
+const PAGE_SIZE = 1000;
+
+export interface TransactionPages {
+  transactions: Transaction[];
+  /** More transactions match beyond `max` */
+  has_more: boolean;
+  /** Requests made */
+  pages: number;
+}
+
+/**
+ * Every transaction matching `query` from its offset on, walking `has_more`
+ * pages one request at a time so the scheduler paces them, stopping after
+ * `max` transactions. A transaction already seen on an earlier page (it
+ * moved while the pages were fetched) is only kept once.
+ */
+export async function fetchTransactionPages(
+  query: Omit<TransactionQuery, "limit">,
+  max = Infinity
+): Promise<TransactionPages> {
+  const byId = new Map<number, Transaction>();
+  let offset = query.offset ?? 0;
+  let pages = 0;
+  while (byId.size < max) {
+    const { data, error, response } = await api.GET("/transactions", {
+      params: { query: { ...query, limit: Math.min(PAGE_SIZE, max - byId.size), offset } },
+    });
+    if (error) handleError(response, error);
+    pages++;
+    for (const t of data!.transactions) {
+      if (!byId.has(t.id)) byId.set(t.id, t);
+    }
+    if (!data!.has_more || data!.transactions.length === 0) {
+      return { transactions: [...byId.values()], has_more: false, pages };
+    }
+    offset += data!.transactions.length;
+  }
+  return { transactions: [...byId.values()], has_more: true, pages };
+}
@@ -0,0 +1,145 @@
+import { readFileSync } from "node:fs";
+
+interface PolicyConfig {
+  read_only?: boolean;
+  allow?: string[];
+  deny?: string[];
+}
+
+export interface Policy {
+  /** Where the policy came from, for the status tool */
+  source: string | null;
+  readOnly: boolean;
+  /** `tool` or `tool:action` rules; `*` matches any run of characters */
+  allow: string[];
+  deny: string[];
+}
+
+// Tools that never change data, the only ones registered in read-only mode
+const READ_ONLY_PREFIXES = ["get_", "list_", "query_", "search_"];
+
+const RULE_PATTERN = /^[\w*]+(:[\w*]+)?$/;
+
+let policy: Policy | null = null;
+const hiddenTools = new Set<string>();
+
+export function currentPolicy(): Policy {
+  policy ??= loadPolicy();
+  return policy;
+}
+
+export function logPolicy(): void {
+  const { source, readOnly } = currentPolicy();
+  if (source) {
+    console.error(`Permission policy loaded from ${source}${readOnly ? " — read-only mode" : ""}.`);
+  }
+}
+
+/** Tools left unregistered by the policy so far. */
+export function policyHiddenTools(): string[] {
+  return [...hiddenTools].sort();
+}
+
+/**
+ * Whether a tool is exposed at all. Read-only mode keeps only `get_*`,
+ * `list_*`, `query_*` and `search_*` tools; a bare `deny` rule hides a tool, and a non-empty `allow`
+ * list hides every tool it does not mention.
+ */
+export function toolAllowed(tool: string): boolean {
+  const allowed = toolExposed(tool);
+  if (!allowed) hiddenTools.add(tool);
+  return allowed;
+}
+
+/**
+ * Whether the policy permits an operation another tool performs on the
+ * caller's behalf, e.g. `undo_changes` deleting a created transaction.
+ */
+export function operationAllowed(tool: string, action?: string): boolean {
+  return toolExposed(tool) && (action === undefined || actionAllowed(tool, action));
+}
+
+/** Whether a tool only reads data, judging by its `get_`/`list_`/`query_`/`search_` name. */
+export function readOnlyTool(tool: string): boolean {
+  return READ_ONLY_PREFIXES.some((prefix) => tool.startsWith(prefix));
+}
+
+/** Whether an exposed tool may perform `action` (e.g. `delete`). */
+export function actionAllowed(tool: string, action: string): boolean {
+  const { allow, deny } = currentPolicy();
+  const target = `${tool}:${action}`;
+  if (deny.some((rule) => matches(rule, target))) return false;
+  if (allow.length === 0) return true;
+  return allow.some((rule) =>
+    rule.includes(":") ? matches(rule, target) : matches(rule, tool)
+  );
+}
+
+// --- Config ---
+
+function toolExposed(tool: string): boolean {
+  const { readOnly, allow, deny } = currentPolicy();
+  return (
+    (!readOnly || readOnlyTool(tool)) &&
+    !deny.some((rule) => matches(rule, tool)) &&
+    (allow.length === 0 || allow.some((rule) => matches(ruleTool(rule), tool)))
+  );
+}
+
+function ruleTool(rule: string): string {
+  return rule.split(":")[0];
+}
+
+function matches(rule: string, name: string): boolean {
+  const pattern = rule
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`).test(name);
+}
+
+/**
+ * LUNCHMONEY_POLICY holds either inline JSON or a path to a JSON file:
+ * `{ "read_only": false, "allow": ["get_*", "manage_transaction:update"], "deny": ["manage_account:delete"] }`.
+ * LUNCHMONEY_READ_ONLY=1 turns on read-only mode regardless.
+ */
+function loadPolicy(): Policy {
+  const source = process.env.LUNCHMONEY_POLICY?.trim();
+  let config: PolicyConfig = {};
+
+  if (source) {
+    const text = source.startsWith("{") ? source : readFileSync(source, "utf8");
+    try {
+      config = JSON.parse(text) as PolicyConfig;
+    } catch (err) {
+      throw new Error(`LUNCHMONEY_POLICY is not valid JSON: ${(err as Error).message}`);
+    }
+  }
+
+  const rules = (key: "allow" | "deny"): string[] => {
+    const list = config[key] ?? [];
+    if (!Array.isArray(list)) {
+      throw new Error(`LUNCHMONEY_POLICY "${key}" must be an array of "tool" or "tool:action" rules.`);
+    }
+    for (const rule of list) {
+      if (typeof rule !== "string" || !RULE_PATTERN.test(rule)) {
+        throw new Error(
+          `Invalid rule ${JSON.stringify(rule)} in LUNCHMONEY_POLICY "${key}". Use "tool" or "tool:action", e.g. "manage_transaction:delete".`
+        );
+      }
+    }
+    return list;
+  };
+
+  const envReadOnly = ["1", "true"].includes(process.env.LUNCHMONEY_READ_ONLY ?? "");
+  let label: string | null = null;
+  if (source) label = source.startsWith("{") ? "LUNCHMONEY_POLICY" : source;
+  else if (envReadOnly) label = "LUNCHMONEY_READ_ONLY";
+
+  return {
+    source: label,
+    readOnly: envReadOnly || config.read_only === true,
+    allow: rules("allow"),
+    deny: rules("deny"),
+  };
+}
@@ -0,0 +1,137 @@
+import { readFileSync } from "node:fs";
+import { createApiClient, useFake, replaying } from "./client.js";
+import {
+  DEFAULT_PROFILE,
+  runInContext,
+  sessionContext,
+  setDefaultContext,
+  type ApiContext,
+} from "./context.js";
+
+interface ProfilesConfig {
+  default?: string;
+  profiles: Record<string, string | { token: string }>;
+}
+
+interface Profiles {
+  tokens: Map<string, string>;
+  defaultName: string;
+}
+
+let profiles: Profiles | null = null;
+const contexts = new Map<string, ApiContext>();
+
+setDefaultContext(() => profileContext(defaultProfile()));
+
+/**
+ * Exit unless at least one budget is configured, via LUNCHMONEY_TOKEN
+ * and/or LUNCHMONEY_PROFILES.
+ */
+export function assertProfiles(): void {
+  if (loaded().tokens.size === 0) {
+    console.error(
+      "LUNCHMONEY_TOKEN is not set. Pass it as an environment variable, or configure LUNCHMONEY_PROFILES."
+    );
+    process.exit(1);
+  }
+}
+
+/** Name of the single profile a session with its own token sees. */
+export const SESSION_PROFILE = "session";
+
+// Sessions with their own token never see the configured profiles
+export function profileNames(): string[] {
+  const session = sessionContext();
+  return session ? [session.profile] : [...loaded().tokens.keys()];
+}
+
+export function defaultProfile(): string {
+  return sessionContext()?.profile ?? loaded().defaultName;
+}
+
+export function hasMultipleProfiles(): boolean {
+  return profileNames().length > 1;
+}
+
+export function profileContext(name: string): ApiContext {
+  let context = contexts.get(name);
+  if (!context) {
+    const token = loaded().tokens.get(name);
+    if (token === undefined) throw new Error(`Unknown profile "${name}".`);
+    context = { key: name, profile: name, client: createApiClient(token, name) };
+    contexts.set(name, context);
+  }
+  return context;
+}
+
+/**
+ * Context for an HTTP session that brought its own Lunch Money token. The
+ * client and cache belong to that session alone.
+ */
+export function createSessionContext(sessionId: string, token: string): ApiContext {
+  return {
+    key: `session:${sessionId}`,
+    profile: SESSION_PROFILE,
+    client: createApiClient(token, SESSION_PROFILE),
+    session: sessionId,
+  };
+}
+
+/** Run `fn` against the given profile's budget (the default if omitted). */
+export function withProfile<T>(name: string | undefined, fn: () => T): T {
+  const session = sessionContext();
+  if (session) {
+    if (name !== undefined && name !== session.profile) {
+      throw new Error(`Unknown profile "${name}".`);
+    }
+    return fn();
+  }
+  return runInContext(profileContext(name ?? defaultProfile()), fn);
+}
+
+// --- Config ---
+
+function loaded(): Profiles {
+  profiles ??= loadProfiles();
+  return profiles;
+}
+
+/**
+ * LUNCHMONEY_PROFILES holds either inline JSON or a path to a JSON file:
+ * `{ "default": "home", "profiles": { "home": "token", "business": "token" } }`.
+ * LUNCHMONEY_TOKEN, if set, adds a profile named "default".
+ */
+function loadProfiles(): Profiles {
+  const tokens = new Map<string, string>();
+  const source = process.env.LUNCHMONEY_PROFILES?.trim();
+  let config: ProfilesConfig | null = null;
+
+  if (source) {
+    const text = source.startsWith("{") ? source : readFileSync(source, "utf8");
+    try {
+      config = JSON.parse(text) as ProfilesConfig;
+    } catch (err) {
+      throw new Error(`LUNCHMONEY_PROFILES is not valid JSON: ${(err as Error).message}`);
+    }
+    for (const [name, entry] of Object.entries(config.profiles ?? {})) {
+      const token = typeof entry === "string" ? entry : entry?.token;
+      if (!token) throw new Error(`Profile "${name}" in LUNCHMONEY_PROFILES has no token.`);
+      tokens.set(name, token);
+    }
+  }
+
+  const envToken = process.env.LUNCHMONEY_TOKEN;
+  if (envToken && !tokens.has(DEFAULT_PROFILE)) {
+    tokens.set(DEFAULT_PROFILE, envToken);
+  }
+  // The fake API and cassette replays need no real token
+  if (tokens.size === 0 && (useFake || replaying)) {
+    tokens.set(DEFAULT_PROFILE, "fake");
+  }
+
+  const defaultName = config?.default ?? (tokens.has(DEFAULT_PROFILE) ? DEFAULT_PROFILE : [...tokens.keys()][0]);
+  if (tokens.size > 0 && !tokens.has(defaultName)) {
+    throw new Error(`Default profile "${defaultName}" is not defined in LUNCHMONEY_PROFILES.`);
+  }
+  return { tokens, defaultName };
+}
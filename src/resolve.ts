@@ -0,0 +1,355 @@
+import type { ErrorReport } from "./client.js";
+import { getCache, refreshCache, type CacheEntity } from "./cache.js";
+
+/** A name argument that matched no entity, or more than one. */
+export class NameResolutionError extends Error {
+  constructor(
+    public code: "unknown_name" | "ambiguous_name" | "invalid_argument",
+    message: string,
+    public field: string,
+    public suggestion: string,
+    public candidates: string[] = []
+  ) {
+    super(message);
+    this.name = "NameResolutionError";
+  }
+
+  toReport(): ErrorReport {
+    return {
+      code: this.code,
+      message: this.message,
+      field: this.field,
+      suggestion: this.suggestion,
+      candidates: this.candidates.length > 0 ? this.candidates : undefined,
+    };
+  }
+}
+
+export interface ResolveOptions {
+  /**
+   * Which categories a `category` name may match: "assignable" excludes
+   * category groups (transactions cannot be assigned to them).
+   */
+  categories?: "assignable" | "any";
+  /** Which accounts an `account` name may match */
+  accounts?: "manual" | "any";
+  /**
+   * Accept only full names (ignoring case and punctuation). Tools that
+   * write set this, so a partial or close match is never applied unseen.
+   */
+  exact?: boolean;
+}
+
+interface Candidate {
+  id: number;
+  /** For accounts: which ID argument the match fills */
+  source?: "manual" | "plaid";
+  name: string;
+  /** Second name the entity answers to, e.g. an account's display name */
+  alias?: string;
+  archived?: boolean;
+  /** Disambiguating detail shown in errors */
+  detail?: string;
+}
+
+type Kind = "category" | "category group" | "tag" | "account";
+
+// Name arguments and the ID argument each one stands in for
+const NAME_ARGS: Record<string, string> = {
+  category: "category_id",
+  categories: "category_ids",
+  group: "group_id",
+  tag: "tag_id",
+  tags: "tag_ids",
+  account: "manual_account_id",
+  accounts: "manual_account_ids",
+};
+
+const MAX_CANDIDATES = 5;
+
+/** Description of a name argument that stands in for an ID argument; `exact` as in ResolveOptions. */
+export function nameArgDescription(what: string, idArg: string, exact = false): string {
+  return exact
+    ? `${what} instead of ${idArg}; case-insensitive, but must be the full name`
+    : `${what} instead of ${idArg}; case-insensitive, partial and close matches are accepted`;
+}
+
+/**
+ * Replace name arguments (`category`, `categories`, `group`, `tag`, `tags`,
+ * `account`, `accounts`) with the ID arguments they stand for, so the rest of a tool works on IDs
+ * only. Names match case-insensitively, then by prefix or substring, then
+ * by edit distance (only the first with `exact`); an unknown name refetches
+ * that entity once in case it was just created elsewhere. `path` prefixes error fields for array items,
+ * e.g. `transactions[2].`.
+ */
+export async function resolveNames<T extends object>(
+  args: T,
+  options: ResolveOptions = {},
+  path = ""
+): Promise<T> {
+  const out = { ...args } as Record<string, unknown>;
+  for (const [nameArg, idArg] of Object.entries(NAME_ARGS)) {
+    const value = out[nameArg];
+    if (value === undefined) continue;
+    delete out[nameArg];
+
+    const idArgs =
+      nameArg === "account"
+        ? ["manual_account_id", "plaid_account_id"]
+        : nameArg === "accounts"
+          ? ["manual_account_ids", "plaid_account_ids"]
+          : [idArg];
+    const both = idArgs.find((arg) => out[arg] !== undefined);
+    if (both) {
+      throw new NameResolutionError(
+        "invalid_argument",
+        `pass either ${path}${nameArg} or ${path}${both}, not both.`,
+        `${path}${nameArg}`,
+        `Drop ${path}${both} to select by name.`
+      );
+    }
+
+    const field = `${path}${nameArg}`;
+    switch (nameArg) {
+      case "category":
+        out.category_id = (await resolveOne("category", value as string, field, options)).id;
+        break;
+      case "categories": {
+        const ids: number[] = [];
+        for (const [i, name] of (value as string[]).entries()) {
+          ids.push((await resolveOne("category", name, `${field}[${i}]`, options)).id);
+        }
+        out.category_ids = ids;
+        break;
+      }
+      case "group":
+        out.group_id = (await resolveOne("category group", value as string, field, options)).id;
+        break;
+      case "tag":
+        out.tag_id = (await resolveOne("tag", value as string, field, options)).id;
+        break;
+      case "tags": {
+        const ids: number[] = [];
+        for (const [i, name] of (value as string[]).entries()) {
+          ids.push((await resolveOne("tag", name, `${field}[${i}]`, options)).id);
+        }
+        out.tag_ids = ids;
+        break;
+      }
+      case "account": {
+        const account = await resolveOne("account", value as string, field, options);
+        out[account.source === "plaid" ? "plaid_account_id" : "manual_account_id"] = account.id;
+        break;
+      }
+      case "accounts": {
+        const manual: number[] = [];
+        const plaid: number[] = [];
+        for (const [i, name] of (value as string[]).entries()) {
+          const account = await resolveOne("account", name, `${field}[${i}]`, options);
+          (account.source === "plaid" ? plaid : manual).push(account.id);
+        }
+        if (manual.length > 0) out.manual_account_ids = manual;
+        if (plaid.length > 0) out.plaid_account_ids = plaid;
+        break;
+      }
+    }
+  }
+  return out as T;
+}
+
+/** `resolveNames` for each item of an array argument, e.g. bulk updates. */
+export async function resolveEach<T extends object>(
+  items: T[],
+  options: ResolveOptions,
+  field: string
+): Promise<T[]> {
+  const resolved: T[] = [];
+  for (const [i, item] of items.entries()) {
+    resolved.push(await resolveNames(item, options, `${field}[${i}].`));
+  }
+  return resolved;
+}
+
+async function resolveOne(
+  kind: Kind,
+  name: string,
+  field: string,
+  options: ResolveOptions
+): Promise<Candidate> {
+  const accepted = (found: Candidate[]) => found.length > 0 && (!options.exact || isExact(name, found[0]));
+  let found = match(name, candidates(kind, options));
+  if (!accepted(found)) {
+    // It may have been created since the cache last loaded
+    await refreshCache(...ENTITIES[kind](options));
+    found = match(name, candidates(kind, options));
+  }
+  if (found.length > 0 && !accepted(found)) {
+    throw new NameResolutionError(
+      "ambiguous_name",
+      `no ${kind} is named exactly "${name}"; it only resembles ${found.length === 1 ? `"${found[0].name}"` : `${found.length} ${plural(kind)}`}.`,
+      field,
+      "Writes need the full name or the ID; use one of these if it is what you meant.",
+      found.slice(0, MAX_CANDIDATES).map(describe)
+    );
+  }
+  if (found.length === 1) return found[0];
+
+  if (found.length > 1) {
+    throw new NameResolutionError(
+      "ambiguous_name",
+      `${kind} "${name}" matches ${found.length} ${plural(kind)}.`,
+      field,
+      "Use the full name of one of them, or its ID.",
+      found.slice(0, MAX_CANDIDATES).map(describe)
+    );
+  }
+  if (kind === "category" && options.categories === "assignable") {
+    const [group] = match(name, candidates("category group", options));
+    if (group) {
+      const children = candidates(kind, options).filter((c) => c.detail === `in ${group.name}`);
+      throw new NameResolutionError(
+        "invalid_argument",
+        `"${group.name}" is a category group; transactions are assigned to the categories in it.`,
+        field,
+        "Use one of the group's categories instead.",
+        children.slice(0, MAX_CANDIDATES).map(describe)
+      );
+    }
+  }
+
+  const q = normalize(name);
+  const near = candidates(kind, options)
+    .map((c) => ({ c, d: distance(q, normalize(c.name)) }))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, MAX_CANDIDATES)
+    .map(({ c }) => describe(c));
+  throw new NameResolutionError(
+    "unknown_name",
+    `no ${kind} matches "${name}".`,
+    field,
+    `Check the spelling, or call ${LIST_TOOLS[kind]} to see all ${plural(kind)}.`,
+    near
+  );
+}
+
+const ENTITIES: Record<Kind, (options: ResolveOptions) => CacheEntity[]> = {
+  category: () => ["categories"],
+  "category group": () => ["categories"],
+  tag: () => ["tags"],
+  account: (options) =>
+    options.accounts === "manual" ? ["manualAccounts"] : ["manualAccounts", "plaidAccounts"],
+};
+
+const LIST_TOOLS: Record<Kind, string> = {
+  category: "list_categories",
+  "category group": 'list_categories with view="nested"',
+  tag: "list_tags",
+  account: "get_accounts",
+};
+
+function candidates(kind: Kind, options: ResolveOptions): Candidate[] {
+  const cache = getCache();
+  switch (kind) {
+    case "category":
+    case "category group":
+      return [...cache.categories.values()]
+        .filter((c) =>
+          kind === "category group" ? c.is_group : options.categories !== "assignable" || !c.is_group
+        )
+        .map((c) => ({
+          id: c.id,
+          name: c.name,
+          archived: c.archived,
+          detail: c.group_id !== null ? `in ${cache.categories.get(c.group_id)?.name ?? `group #${c.group_id}`}` : undefined,
+        }));
+    case "tag":
+      return [...cache.tags.values()].map((t) => ({ id: t.id, name: t.name, archived: t.archived }));
+    case "account": {
+      const manual = [...cache.manualAccounts.values()].map((a): Candidate => ({
+        id: a.id,
+        source: "manual",
+        name: a.display_name ?? a.name,
+        alias: a.name,
+        archived: a.status === "closed",
+        detail: "manual",
+      }));
+      if (options.accounts === "manual") return manual;
+      const plaid = [...cache.plaidAccounts.values()].map((a): Candidate => ({
+        id: a.id,
+        source: "plaid",
+        name: a.display_name ?? a.name,
+        alias: a.name,
+        archived: a.status === "closed",
+        detail: "synced",
+      }));
+      return [...manual, ...plaid];
+    }
+  }
+}
+
+/**
+ * Candidates matching `query`, best tier first: exact (ignoring case and
+ * punctuation), then prefix, then substring, then a close edit distance.
+ * Archived and closed entities only win when nothing active matches.
+ */
+function match(query: string, all: Candidate[]): Candidate[] {
+  const q = normalize(query);
+  if (!q) return [];
+  const tiers: ((n: string) => boolean)[] = [
+    (n) => n === q,
+    (n) => n.startsWith(q),
+    (n) => n.includes(q),
+    (n) => distance(q, n) <= Math.max(1, Math.floor(q.length / 4)),
+  ];
+  for (const test of tiers) {
+    const found = all.filter((c) => names(c).some(test));
+    if (found.length === 0) continue;
+    const active = found.filter((c) => !c.archived);
+    return active.length > 0 ? active : found;
+  }
+  return [];
+}
+
+function names(c: Candidate): string[] {
+  return [c.name, c.alias].filter((n): n is string => !!n).map(normalize);
+}
+
+/** Whether `query` is the candidate's full name, ignoring case and punctuation. */
+function isExact(query: string, c: Candidate): boolean {
+  return names(c).includes(normalize(query));
+}
+
+function normalize(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** Levenshtein distance between two strings. */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function describe(c: Candidate): string {
+  const details = [c.detail, c.archived ? "archived" : undefined].filter(Boolean).join(", ");
+  return `${c.name} (ID ${c.id}${details ? `, ${details}` : ""})`;
+}
+
+function plural(kind: Kind): string {
+  return kind === "category" ? "categories" : `${kind}s`;
+}
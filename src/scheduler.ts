@@ -0,0 +1,117 @@
+export interface SchedulerOptions {
+  maxConcurrency: number;
+  requestsPerSecond: number;
+}
+
+export interface SchedulerStats {
+  maxConcurrency: number;
+  requestsPerSecond: number;
+  active: number;
+  queued: number;
+  started: number;
+  coalesced: number;
+  throttled: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+}
+
+interface QueuedTask {
+  run: () => void;
+  enqueuedAt: number;
+}
+
+/**
+ * Caps concurrent and per-second requests, queueing the rest in FIFO order.
+ * Identical in-flight reads can share one call via `coalesce`.
+ */
+export class RequestScheduler {
+  private active = 0;
+  private queue: QueuedTask[] = [];
+  private recentStarts: number[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight = new Map<string, Promise<unknown>>();
+  private counters = {
+    started: 0,
+    coalesced: 0,
+    throttled: 0,
+    totalWaitMs: 0,
+    maxWaitMs: 0,
+  };
+
+  constructor(private options: SchedulerOptions) {}
+
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        enqueuedAt: Date.now(),
+        run: () => {
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              this.active--;
+              this.drain();
+            });
+        },
+      });
+      this.drain();
+    });
+  }
+
+  /**
+   * Share one pending task between callers using the same key. `share` gives
+   * each caller its own copy of the result (e.g. a cloned Response).
+   */
+  async coalesce<T>(
+    key: string,
+    task: () => Promise<T>,
+    share: (value: T) => T
+  ): Promise<T> {
+    let pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (pending) {
+      this.counters.coalesced++;
+    } else {
+      pending = task().finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return share(await pending);
+  }
+
+  stats(): SchedulerStats {
+    return {
+      ...this.options,
+      active: this.active,
+      queued: this.queue.length,
+      ...this.counters,
+    };
+  }
+
+  private drain(): void {
+    while (this.queue.length > 0 && this.active < this.options.maxConcurrency) {
+      const now = Date.now();
+      this.recentStarts = this.recentStarts.filter((t) => now - t < 1000);
+      if (this.recentStarts.length >= this.options.requestsPerSecond) {
+        this.scheduleDrain(this.recentStarts[0] + 1000 - now);
+        return;
+      }
+
+      const next = this.queue.shift()!;
+      const waited = now - next.enqueuedAt;
+      if (waited > 0) this.counters.throttled++;
+      this.counters.totalWaitMs += waited;
+      this.counters.maxWaitMs = Math.max(this.counters.maxWaitMs, waited);
+      this.counters.started++;
+
+      this.recentStarts.push(now);
+      this.active++;
+      next.run();
+    }
+  }
+
+  private scheduleDrain(delay: number): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delay);
+  }
+}
@@ -0,0 +1,34 @@
+import Database from "better-sqlite3";
+import type { QueryJob, QueryOutcome } from "./sql.js";
+
+// Runs one query for sql.ts in a child process that can be killed at the timeout
+
+process.once("message", (job: QueryJob) => {
+  process.send!(run(job), () => process.exit(0));
+});
+
+function run({ file, sql, params, maxRows }: QueryJob): QueryOutcome {
+  try {
+    // Read-only at the connection level: SQLite refuses every write, and
+    // attached databases inherit the read-only flag
+    const db = new Database(file, { readonly: true, fileMustExist: true });
+    const statement = db.prepare(sql);
+    if (!statement.readonly || !statement.reader) {
+      return { ok: false, message: "only read-only statements that return rows (SELECT, WITH …) are allowed." };
+    }
+
+    const columns = statement.columns().map((c) => c.name);
+    const rows: unknown[][] = [];
+    let truncated = false;
+    for (const row of statement.raw().iterate(...params) as Iterable<unknown[]>) {
+      if (rows.length === maxRows) {
+        truncated = true;
+        break;
+      }
+      rows.push(row);
+    }
+    return { ok: true, columns, rows, truncated };
+  } catch (err) {
+    return { ok: false, message: err instanceof Error ? err.message : String(err) };
+  }
+}
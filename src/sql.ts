@@ -0,0 +1,196 @@
+import { fork } from "node:child_process";
+import { mkdirSync, renameSync, rmSync } from "node:fs";
+import type Database from "better-sqlite3";
+import { cacheHealth, getCache } from "./cache.js";
+import { currentContext } from "./context.js";
+import { storeDir, storePath, storeStatus, syncStore, visibleTransactions } from "./store.js";
+
+export interface QueryJob {
+  file: string;
+  sql: string;
+  params: (string | number | null)[];
+  maxRows: number;
+}
+
+export type QueryOutcome =
+  | { ok: true; columns: string[]; rows: unknown[][]; truncated: boolean }
+  | { ok: false; message: string };
+
+export interface QueryResult {
+  columns: string[];
+  rows: unknown[][];
+  truncated: boolean;
+}
+
+/** Raised for SQL the engine rejects or that runs too long. */
+export class QueryError extends Error {}
+
+export const QUERY_TIMEOUT_MS = 5_000;
+
+/**
+ * Tables and views queries run against, as shown to the model. Base data
+ * lives in `_transactions` and `_transaction_tags`; the views add names.
+ */
+export const QUERY_SCHEMA = `transactions — one row per transaction, as list_transactions shows them (no pending transactions, split parents or grouped children):
+  id, date (YYYY-MM-DD), year ('2025'), month ('2025-03'), weekday (0 = Sunday … 6 = Saturday),
+  payee, amount (positive = spending, negative = income/credit, in the transaction currency), currency, to_base (amount in the primary currency),
+  category_id, category, category_group, is_income (0/1), exclude_from_totals (0/1),
+  account_source ('manual', 'plaid' or 'cash'), account_id, account, tags (comma-separated names),
+  notes, status ('reviewed'/'unreviewed'), recurring_id, is_group (0/1), source, created_at, updated_at
+transaction_tags — transaction_id, tag_id, tag (one row per tag on a transaction)
+categories — id, name, description, is_income, exclude_from_budget, exclude_from_totals, is_group, group_id, group_name, archived
+tags — id, name, description, archived
+accounts — source ('manual'/'plaid'), id, name, institution_name, type, subtype, balance, currency, to_base, status`;
+
+const SCHEMA_SQL = `
+CREATE TABLE categories (id INTEGER PRIMARY KEY, name TEXT, description TEXT, is_income INTEGER, exclude_from_budget INTEGER, exclude_from_totals INTEGER, is_group INTEGER, group_id INTEGER, group_name TEXT, archived INTEGER);
+CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT, description TEXT, archived INTEGER);
+CREATE TABLE accounts (source TEXT, id INTEGER, name TEXT, institution_name TEXT, type TEXT, subtype TEXT, balance REAL, currency TEXT, to_base REAL, status TEXT, PRIMARY KEY (source, id));
+CREATE TABLE _transactions (id INTEGER PRIMARY KEY, date TEXT, payee TEXT, amount REAL, currency TEXT, to_base REAL, category_id INTEGER, manual_account_id INTEGER, plaid_account_id INTEGER, notes TEXT, status TEXT, recurring_id INTEGER, is_group INTEGER, source TEXT, created_at TEXT, updated_at TEXT);
+CREATE TABLE _transaction_tags (transaction_id INTEGER, tag_id INTEGER);
+CREATE INDEX _transactions_date ON _transactions (date);
+CREATE INDEX _transaction_tags_transaction ON _transaction_tags (transaction_id);
+
+CREATE VIEW transactions AS
+SELECT t.id, t.date, substr(t.date, 1, 4) AS year, substr(t.date, 1, 7) AS month,
+  CAST(strftime('%w', t.date) AS INTEGER) AS weekday,
+  t.payee, t.amount, t.currency, t.to_base,
+  t.category_id, c.name AS category, c.group_name AS category_group,
+  COALESCE(c.is_income, 0) AS is_income, COALESCE(c.exclude_from_totals, 0) AS exclude_from_totals,
+  CASE WHEN t.manual_account_id IS NOT NULL THEN 'manual' WHEN t.plaid_account_id IS NOT NULL THEN 'plaid' ELSE 'cash' END AS account_source,
+  COALESCE(t.manual_account_id, t.plaid_account_id) AS account_id,
+  COALESCE(ma.name, pa.name, CASE WHEN t.manual_account_id IS NULL AND t.plaid_account_id IS NULL THEN 'Cash' END) AS account,
+  (SELECT group_concat(g.name, ', ') FROM _transaction_tags tt JOIN tags g ON g.id = tt.tag_id WHERE tt.transaction_id = t.id) AS tags,
+  t.notes, t.status, t.recurring_id, t.is_group, t.source, t.created_at, t.updated_at
+FROM _transactions t
+LEFT JOIN categories c ON c.id = t.category_id
+LEFT JOIN accounts ma ON ma.source = 'manual' AND ma.id = t.manual_account_id
+LEFT JOIN accounts pa ON pa.source = 'plaid' AND pa.id = t.plaid_account_id;
+
+CREATE VIEW transaction_tags AS
+SELECT tt.transaction_id, tt.tag_id, g.name AS tag
+FROM _transaction_tags tt LEFT JOIN tags g ON g.id = tt.tag_id;
+`;
+
+// What each profile's database was last built from
+const builtFrom = new Map<string, string>();
+
+/**
+ * Run a read-only query against the current profile's synced data. The
+ * database is opened read-only in a separate process, so writes fail in
+ * SQLite itself and a runaway query can be killed at the timeout.
+ */
+export async function runQuery(
+  sql: string,
+  params: QueryJob["params"],
+  maxRows: number
+): Promise<QueryResult> {
+  const file = await prepareDatabase();
+  const outcome = await runInChild({ file, sql, params, maxRows });
+  if (!outcome.ok) throw new QueryError(outcome.message);
+  return outcome;
+}
+
+// better-sqlite3 is a native, optional dependency, loaded on the first query
+let sqlite: Promise<typeof Database | undefined> | undefined;
+
+function loadSqlite(): Promise<typeof Database | undefined> {
+  sqlite ??= import("better-sqlite3").then(
+    (module) => module.default,
+    () => undefined
+  );
+  return sqlite;
+}
+
+/** Whether better-sqlite3 is installed, so queries can run at all. */
+export async function sqliteAvailable(): Promise<boolean> {
+  return (await loadSqlite()) !== undefined;
+}
+
+/** Sync the store and rebuild the SQLite copy if anything changed. */
+async function prepareDatabase(): Promise<string> {
+  await syncStore();
+  const file = storePath(".sqlite");
+  const stamp = [storeStatus()?.syncedAt, ...cacheHealth().map((h) => h.loadedAt)].join("|");
+  const { key } = currentContext();
+  if (builtFrom.get(key) !== stamp) {
+    const Sqlite = await loadSqlite();
+    if (!Sqlite) throw new QueryError("SQLite support (the optional better-sqlite3 package) is not installed.");
+    buildDatabase(Sqlite, file);
+    builtFrom.set(key, stamp);
+  }
+  return file;
+}
+
+/** Write a fresh database next to the old one and swap it in. */
+function buildDatabase(Sqlite: typeof Database, file: string): void {
+  mkdirSync(storeDir, { recursive: true, mode: 0o700 });
+  const temp = `${file}.tmp`;
+  rmSync(temp, { force: true });
+  const db = new Sqlite(temp);
+  try {
+    db.exec(SCHEMA_SQL);
+    const cache = getCache();
+    const flag = (value: boolean | undefined) => (value ? 1 : 0);
+
+    db.transaction(() => {
+      const category = db.prepare("INSERT INTO categories VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+      for (const c of cache.categories.values()) {
+        const group = c.group_id !== null ? cache.categories.get(c.group_id)?.name ?? null : null;
+        category.run(c.id, c.name, c.description, flag(c.is_income), flag(c.exclude_from_budget),
+          flag(c.exclude_from_totals), flag(c.is_group), c.group_id, group, flag(c.archived));
+      }
+
+      const tag = db.prepare("INSERT INTO tags VALUES (?, ?, ?, ?)");
+      for (const t of cache.tags.values()) {
+        tag.run(t.id, t.name, t.description, flag(t.archived));
+      }
+
+      const account = db.prepare("INSERT INTO accounts VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)");
+      for (const a of cache.manualAccounts.values()) {
+        account.run("manual", a.id, a.display_name ?? a.name, a.institution_name, a.type, a.subtype,
+          Number(a.balance), a.currency, a.to_base, a.status);
+      }
+      for (const a of cache.plaidAccounts.values()) {
+        account.run("plaid", a.id, a.display_name ?? a.name, a.institution_name, a.type, a.subtype,
+          Number(a.balance), a.currency, a.to_base, a.status);
+      }
+
+      const transaction = db.prepare(
+        "INSERT INTO _transactions VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
+      );
+      const transactionTag = db.prepare("INSERT INTO _transaction_tags VALUES (?, ?)");
+      for (const t of visibleTransactions()) {
+        transaction.run(t.id, t.date, t.payee, Number(t.amount), t.currency, t.to_base, t.category_id,
+          t.manual_account_id, t.plaid_account_id, t.notes, t.status, t.recurring_id,
+          flag(t.is_group_parent), t.source, t.created_at, t.updated_at);
+        for (const tagId of t.tag_ids) transactionTag.run(t.id, tagId);
+      }
+    })();
+  } finally {
+    db.close();
+  }
+  renameSync(temp, file);
+}
+
+function runInChild(job: QueryJob): Promise<QueryOutcome> {
+  return new Promise((resolve) => {
+    const child = fork(new URL("./sql-worker.js", import.meta.url), {
+      execArgv: ["--max-old-space-size=256"],
+      stdio: ["ignore", "ignore", "inherit", "ipc"],
+    });
+    const finish = (outcome: QueryOutcome) => {
+      clearTimeout(timer);
+      child.kill("SIGKILL");
+      resolve(outcome);
+    };
+    const timer = setTimeout(
+      () => finish({ ok: false, message: `query took longer than ${QUERY_TIMEOUT_MS / 1000}s and was stopped.` }),
+      QUERY_TIMEOUT_MS
+    );
+    child.on("message", (outcome: QueryOutcome) => finish(outcome));
+    child.on("error", (err) => finish({ ok: false, message: err.message }));
+    child.on("exit", (code) => finish({ ok: false, message: `query process exited with code ${code}.` }));
+    child.send(job);
+  });
+}
@@ -0,0 +1,399 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { currentContext, sessionContext } from "./context.js";
+import { getCache } from "./cache.js";
+import { fetchTransactionPages } from "./paginate.js";
+import type { components } from "./types.js";
+
+type Transaction = components["schemas"]["transactionObject"];
+
+/** Filters the store applies the way `GET /transactions` does. */
+export interface StoreQuery {
+  start_date?: string;
+  end_date?: string;
+  category_id?: number;
+  tag_id?: number;
+  status?: "reviewed" | "unreviewed" | "delete_pending";
+  manual_account_id?: number;
+  plaid_account_id?: number;
+  recurring_id?: number;
+  created_since?: string;
+  updated_since?: string;
+  is_group_parent?: boolean;
+  is_pending?: boolean;
+  include_pending?: boolean;
+  include_split_parents?: boolean;
+  include_group_children?: boolean;
+  include_children?: boolean;
+  limit: number;
+  offset?: number;
+}
+
+export interface SyncResult {
+  full: boolean;
+  added: number;
+  updated: number;
+  deleted: number;
+  total: number;
+}
+
+export interface StoreStatus {
+  file: string;
+  transactions: number;
+  syncedAt: string | null;
+  fullSyncAt: string | null;
+  error: string | null;
+}
+
+interface StoreFile {
+  version: 1;
+  /** Start of the last successful sync of any kind */
+  syncedAt: string | null;
+  /** Start of the last successful full download */
+  fullSyncAt: string | null;
+  transactions: Transaction[];
+}
+
+interface LocalStore {
+  file: string;
+  data: Omit<StoreFile, "transactions">;
+  byId: Map<number, Transaction>;
+  /** A write went through this server since the last sync */
+  stale: boolean;
+  lastSync: number;
+  error: string | null;
+}
+
+// LUNCHMONEY_STORE=1 turns the store on; LUNCHMONEY_DATA_DIR moves it
+export const storeConfigured = ["1", "true"].includes(process.env.LUNCHMONEY_STORE ?? "");
+export const storeDir =
+  process.env.LUNCHMONEY_DATA_DIR?.trim() || join(homedir(), ".lunchmoney-mcp", "store");
+
+// Reads within this long of the last sync skip the incremental sync
+const SYNC_INTERVAL_MS = 60_000;
+// Deletions of older transactions are only seen by a full download
+const FULL_SYNC_INTERVAL_MS = 24 * 60 * 60_000;
+// updated_since/created_since overlap, in case the API clock is ahead of ours
+const CLOCK_SKEW_MS = 5 * 60_000;
+
+// Wide enough to cover every transaction, including scheduled future ones
+const ALL_DATES = { start_date: "1970-01-01", end_date: "2099-12-31" };
+
+const stores = new Map<string, LocalStore>();
+const syncing = new Map<string, Promise<SyncResult>>();
+
+/**
+ * Whether reads can use the local store. Sessions that brought their own
+ * token always read from the API, so their data is never written to disk.
+ */
+export function storeAvailable(): boolean {
+  return storeConfigured && !sessionContext();
+}
+
+/** Make the next read sync first, e.g. after a write through this server. */
+export function markStoreStale(): void {
+  if (!storeAvailable()) return;
+  const store = stores.get(currentContext().key);
+  if (store) store.stale = true;
+}
+
+/**
+ * Bring the current profile's store up to date. The first sync downloads
+ * every transaction; later ones fetch only those created or updated since,
+ * and a full download runs daily (or with `full`) to catch deletions of
+ * older transactions.
+ */
+export async function syncStore(options: { full?: boolean; force?: boolean } = {}): Promise<SyncResult | null> {
+  const store = openStore();
+  const fresh =
+    !store.stale && store.data.syncedAt !== null && Date.now() - store.lastSync < SYNC_INTERVAL_MS;
+  if (fresh && !options.full && !options.force) return null;
+
+  const { key } = currentContext();
+  let run = syncing.get(key);
+  if (!run) {
+    run = runSync(store, options.full ?? false).finally(() => syncing.delete(key));
+    syncing.set(key, run);
+  }
+  return run;
+}
+
+/** Transactions matching `query`, newest first, after syncing if due. */
+export async function queryStore(
+  query: StoreQuery
+): Promise<{ transactions: Transaction[]; has_more: boolean }> {
+  await syncStore();
+  const categories = getCache().categories;
+  const since = (value: string | undefined) => (value ? Date.parse(value) : undefined);
+  const createdSince = since(query.created_since);
+  const updatedSince = since(query.updated_since);
+  const all = [...openStore().byId.values()];
+  const matches = all
+    .filter((t) => {
+      if (query.start_date && t.date < query.start_date) return false;
+      if (query.end_date && t.date > query.end_date) return false;
+      if (query.category_id !== undefined) {
+        // Like the API, a category group id also matches its children
+        const id = t.category_id ?? 0;
+        const group = t.category_id !== null ? categories.get(t.category_id)?.group_id : null;
+        if (id !== query.category_id && group !== query.category_id) return false;
+      }
+      if (query.tag_id !== undefined && !t.tag_ids.includes(query.tag_id)) return false;
+      if (query.status && t.status !== query.status) return false;
+      if (query.manual_account_id !== undefined && t.manual_account_id !== query.manual_account_id) {
+        return false;
+      }
+      if (query.plaid_account_id !== undefined && t.plaid_account_id !== query.plaid_account_id) {
+        return false;
+      }
+      if (query.recurring_id !== undefined && t.recurring_id !== query.recurring_id) return false;
+      if (query.is_group_parent !== undefined && t.is_group_parent !== query.is_group_parent) {
+        return false;
+      }
+      // is_pending takes precedence over include_pending, as in the API
+      if (query.is_pending !== undefined) {
+        if (t.is_pending !== query.is_pending) return false;
+      } else if (!query.include_pending && t.is_pending) {
+        return false;
+      }
+      if (!query.include_split_parents && t.is_split_parent) return false;
+      if (!query.include_group_children && t.group_parent_id !== null) return false;
+      if (createdSince !== undefined && Date.parse(t.created_at) < createdSince) return false;
+      if (updatedSince !== undefined && Date.parse(t.updated_at) < updatedSince) return false;
+      return true;
+    })
+    .sort((a, b) => b.date.localeCompare(a.date) || b.id - a.id);
+
+  const offset = query.offset ?? 0;
+  const page = matches.slice(offset, offset + query.limit);
+  return {
+    transactions: query.include_children ? page.map((t) => withChildren(t, all)) : page,
+    has_more: offset + query.limit < matches.length,
+  };
+}
+
+/**
+ * Transactions by ID, in the order given, after an incremental sync so
+ * changes from the last minute are included. Undefined where the store has
+ * no such transaction.
+ */
+export async function storedTransactions(ids: number[]): Promise<(Transaction | undefined)[]> {
+  await syncStore({ force: true });
+  const { byId } = openStore();
+  return ids.map((id) => byId.get(id));
+}
+
+/** A split or group parent with the transactions it consists of, like `include_children`. */
+function withChildren(t: Transaction, all: Transaction[]): Transaction {
+  if (!t.is_split_parent && !t.is_group_parent) return t;
+  const children = all
+    .filter((c) => c.split_parent_id === t.id || c.group_parent_id === t.id)
+    .map(({ children: _nested, ...child }) => child);
+  return { ...t, children };
+}
+
+/**
+ * Transactions `GET /transactions` would list by default: no pending
+ * transactions, split parents or grouped children.
+ */
+export function visibleTransactions(): Transaction[] {
+  return [...openStore().byId.values()].filter(
+    (t) => !t.is_pending && !t.is_split_parent && t.group_parent_id === null
+  );
+}
+
+/** Drop a transaction deleted through this server, which no sync would notice until the next full one. */
+export function forgetTransaction(id: number): void {
+  if (!storeAvailable()) return;
+  const store = stores.get(currentContext().key);
+  if (store?.byId.delete(id)) saveStore(store);
+}
+
+export function logStore(): void {
+  if (storeConfigured) {
+    console.error(`Local transaction store enabled in ${storeDir}; it syncs on first use.`);
+  }
+}
+
+export function storeStatus(): StoreStatus | null {
+  if (!storeAvailable()) return null;
+  const store = openStore();
+  return {
+    file: store.file,
+    transactions: store.byId.size,
+    syncedAt: store.data.syncedAt,
+    fullSyncAt: store.data.fullSyncAt,
+    error: store.error,
+  };
+}
+
+// --- Sync ---
+
+async function runSync(store: LocalStore, forceFull: boolean): Promise<SyncResult> {
+  const { data } = store;
+  const startedAt = new Date();
+  const full =
+    forceFull ||
+    data.fullSyncAt === null ||
+    startedAt.getTime() - Date.parse(data.fullSyncAt) >= FULL_SYNC_INTERVAL_MS;
+
+  // Cleared up front so a write made while this sync runs marks it again
+  store.stale = false;
+  try {
+    const result = full ? await fullSync(store) : await incrementalSync(store);
+    data.syncedAt = startedAt.toISOString();
+    if (full) data.fullSyncAt = data.syncedAt;
+    store.lastSync = startedAt.getTime();
+    store.error = null;
+    saveStore(store);
+    return { full, ...result, total: store.byId.size };
+  } catch (err) {
+    store.stale = true;
+    store.error = err instanceof Error ? err.message : String(err);
+    throw err;
+  }
+}
+
+async function fullSync(store: LocalStore): Promise<Omit<SyncResult, "full" | "total">> {
+  const all = await fetchAll({});
+  const previous = store.byId;
+  store.byId = new Map(all.map((t) => [t.id, t]));
+  return {
+    ...countChanges(previous, all),
+    deleted: [...previous.keys()].filter((id) => !store.byId.has(id)).length,
+  };
+}
+
+/**
+ * Fetch what changed since the last sync. Deletions leave no trace in
+ * `updated_since`, so transactions created since the last full download are
+ * listed again with `created_since`: any of those the store holds that the
+ * API no longer returns were deleted.
+ */
+async function incrementalSync(store: LocalStore): Promise<Omit<SyncResult, "full" | "total">> {
+  const since = (iso: string) => new Date(Date.parse(iso) - CLOCK_SKEW_MS).toISOString();
+  const fullSyncAt = since(store.data.fullSyncAt!);
+  const [changed, created] = await Promise.all([
+    fetchAll({ updated_since: since(store.data.syncedAt!) }),
+    fetchAll({ created_since: fullSyncAt }),
+  ]);
+
+  const counts = countChanges(store.byId, changed);
+  const groupedBefore = groupsWithChildren(store);
+  for (const t of changed) store.byId.set(t.id, t);
+
+  const createdIds = new Set(created.map((t) => t.id));
+  const changedIds = new Set(changed.map((t) => t.id));
+  let deleted = 0;
+  for (const t of [...store.byId.values()]) {
+    if (t.created_at >= fullSyncAt && !createdIds.has(t.id) && !changedIds.has(t.id)) {
+      store.byId.delete(t.id);
+      deleted++;
+    }
+  }
+  return { ...counts, deleted: deleted + dropUndone(store, groupedBefore) };
+}
+
+/**
+ * Unsplitting deletes the split children and ungrouping deletes the group
+ * parent, but both leave traces on the transactions that changed: a parent
+ * no longer marked as split, a group left with no children.
+ */
+function dropUndone(store: LocalStore, groupedBefore: Set<number>): number {
+  const grouped = groupsWithChildren(store);
+  let deleted = 0;
+  for (const t of [...store.byId.values()]) {
+    const parent = t.split_parent_id !== null ? store.byId.get(t.split_parent_id) : undefined;
+    const unsplit = parent?.is_split_parent === false;
+    const ungrouped = groupedBefore.has(t.id) && !grouped.has(t.id);
+    if (unsplit || ungrouped) {
+      store.byId.delete(t.id);
+      deleted++;
+    }
+  }
+  return deleted;
+}
+
+function groupsWithChildren(store: LocalStore): Set<number> {
+  const groups = new Set<number>();
+  for (const t of store.byId.values()) {
+    if (t.group_parent_id !== null) groups.add(t.group_parent_id);
+  }
+  return groups;
+}
+
+function countChanges(
+  previous: Map<number, Transaction>,
+  fetched: Transaction[]
+): { added: number; updated: number } {
+  let added = 0;
+  let updated = 0;
+  for (const t of fetched) {
+    const old = previous.get(t.id);
+    if (!old) added++;
+    else if (old.updated_at !== t.updated_at) updated++;
+  }
+  return { added, updated };
+}
+
+/** Every transaction matching `filter`, including the ones hidden by default. */
+async function fetchAll(
+  filter: { updated_since?: string; created_since?: string }
+): Promise<Transaction[]> {
+  const { transactions } = await fetchTransactionPages({
+    ...ALL_DATES,
+    ...filter,
+    include_pending: true,
+    include_split_parents: true,
+    include_group_children: true,
+  });
+  return transactions;
+}
+
+// --- Files ---
+
+/** Path of one of the current profile's files in the store directory. */
+export function storePath(extension: string): string {
+  return join(storeDir, `${currentContext().key.replace(/[^\w.-]/g, "_")}${extension}`);
+}
+
+function openStore(): LocalStore {
+  const { key } = currentContext();
+  let store = stores.get(key);
+  if (!store) {
+    const file = storePath(".json");
+    const { transactions, ...data } = loadFile(file);
+    store = {
+      file,
+      data,
+      byId: new Map(transactions.map((t) => [t.id, t])),
+      stale: false,
+      lastSync: 0,
+      error: null,
+    };
+    stores.set(key, store);
+  }
+  return store;
+}
+
+function loadFile(file: string): StoreFile {
+  const empty: StoreFile = { version: 1, syncedAt: null, fullSyncAt: null, transactions: [] };
+  if (!existsSync(file)) return empty;
+  try {
+    const data = JSON.parse(readFileSync(file, "utf8")) as StoreFile;
+    return data.version === 1 ? data : empty;
+  } catch (err) {
+    console.error(`Ignoring unreadable transaction store ${file}; it will be rebuilt:`, err);
+    return empty;
+  }
+}
+
+/** Write via a temp file so a crash never leaves a torn store behind. */
+function saveStore(store: LocalStore): void {
+  mkdirSync(storeDir, { recursive: true, mode: 0o700 });
+  const temp = `${store.file}.tmp`;
+  const file: StoreFile = { ...store.data, transactions: [...store.byId.values()] };
+  writeFileSync(temp, JSON.stringify(file), { mode: 0o600 });
+  renameSync(temp, store.file);
+}
@@ -0,0 +1,421 @@
+import { z } from "zod";
+import { getCache, CACHE_ENTITY_KEYS, type CacheHealth } from "./cache.js";
+import type { StoreStatus } from "./store.js";
+import type { components } from "./types.js";
+
+type Transaction = components["schemas"]["transactionObject"];
+type ChildTransaction = components["schemas"]["childTransactionObject"];
+type Category = components["schemas"]["categoryObject"];
+type ChildCategory = components["schemas"]["childCategoryObject"];
+type ManualAccount = components["schemas"]["manualAccountObject"];
+type PlaidAccount = components["schemas"]["plaidAccountObject"];
+type Tag = components["schemas"]["tagObject"];
+type Recurring = components["schemas"]["recurringObject"];
+type User = components["schemas"]["userObject"];
+type Summary =
+  | components["schemas"]["alignedSummaryResponseObject"]
+  | components["schemas"]["nonAlignedSummaryResponseObject"];
+
+// --- Schemas ---
+//
+// Objects returned as `structuredContent`. IDs are kept next to the names
+// they resolve to; a name is null when the cache cannot resolve its ID.
+// Amounts are numbers rather than the API's decimal strings.
+
+const fileSchema = z.object({
+  id: z.number().optional(),
+  name: z.string().optional(),
+  type: z.string().optional().describe("MIME type"),
+  size: z.number().optional().describe("Size in kilobytes"),
+  notes: z.string().nullable().optional(),
+  created_at: z.string().optional(),
+});
+
+const baseTransactionSchema = z.object({
+  id: z.number(),
+  date: z.string(),
+  payee: z.string(),
+  original_name: z.string().nullable().describe("Payee as the bank or import first named it"),
+  amount: z.number().describe("Positive = debit/spending, negative = credit/income"),
+  currency: z.string(),
+  to_base: z.number().describe("Amount in the budget's primary currency"),
+  category_id: z.number().nullable(),
+  category: z.string().nullable(),
+  category_group: z.string().nullable(),
+  manual_account_id: z.number().nullable(),
+  plaid_account_id: z.number().nullable(),
+  account: z.string().nullable().describe('Account name, or "Cash" for transactions without one'),
+  tag_ids: z.array(z.number()),
+  tags: z.array(z.string()),
+  notes: z.string().nullable(),
+  status: z.string(),
+  is_pending: z.boolean(),
+  recurring_id: z.number().nullable(),
+  is_split_parent: z.boolean(),
+  split_parent_id: z.number().nullable(),
+  is_group_parent: z.boolean(),
+  group_parent_id: z.number().nullable(),
+  external_id: z.string().nullable(),
+  source: z.string().nullable(),
+  created_at: z.string(),
+  updated_at: z.string(),
+  custom_metadata: z.record(z.string(), z.unknown()).nullable().optional().describe("Only with include_metadata"),
+  plaid_metadata: z.record(z.string(), z.unknown()).nullable().optional().describe("Only with include_metadata"),
+  files: z.array(fileSchema).optional().describe("Attachments; only with include_files"),
+});
+
+export const transactionSchema = baseTransactionSchema.extend({
+  children: z
+    .array(baseTransactionSchema)
+    .optional()
+    .describe("Split parts or grouped transactions"),
+});
+
+const baseCategorySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  is_income: z.boolean(),
+  exclude_from_budget: z.boolean(),
+  exclude_from_totals: z.boolean(),
+  is_group: z.boolean(),
+  group_id: z.number().nullable(),
+  group: z.string().nullable(),
+  archived: z.boolean(),
+});
+
+export const categorySchema = baseCategorySchema.extend({
+  children: z.array(baseCategorySchema).optional().describe("Categories in this group (nested view)"),
+});
+
+export const tagSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullable(),
+  archived: z.boolean(),
+});
+
+export const accountSchema = z.object({
+  source: z.enum(["manual", "plaid"]),
+  id: z.number(),
+  name: z.string().describe("Display name, falling back to the account name"),
+  institution_name: z.string().nullable(),
+  type: z.string(),
+  subtype: z.string().nullable(),
+  balance: z.number(),
+  currency: z.string(),
+  to_base: z.number(),
+  status: z.string(),
+});
+
+export const summaryCategorySchema = z.object({
+  category_id: z.number(),
+  category: z.string().nullable(),
+  category_group: z.string().nullable(),
+  activity: z.number(),
+  other_activity: z.number(),
+  recurring_activity: z.number(),
+  budgeted: z.number().nullable(),
+  available: z.number().nullable(),
+});
+
+export const summarySchema = z.object({
+  start_date: z.string(),
+  end_date: z.string(),
+  aligned: z.boolean().describe("Whether the range matches budget periods, so budgets are included"),
+  totals: z
+    .object({
+      income: z.number(),
+      spending: z.number(),
+      net: z.number(),
+      uncategorized: z.number(),
+    })
+    .nullable(),
+  categories: z.array(summaryCategorySchema),
+});
+
+export const recurringSchema = z.object({
+  id: z.number(),
+  description: z.string().nullable(),
+  status: z.string(),
+  payee: z.string().nullable(),
+  amount: z.number(),
+  currency: z.string(),
+  to_base: z.number(),
+  granularity: z.string(),
+  quantity: z.number(),
+  start_date: z.string().nullable(),
+  end_date: z.string().nullable(),
+  category_id: z.number().nullable(),
+  category: z.string().nullable(),
+  manual_account_id: z.number().nullable(),
+  plaid_account_id: z.number().nullable(),
+  account: z.string().nullable(),
+  expected_dates: z.array(z.string()),
+  found_transactions: z.array(
+    z.object({ date: z.string().nullable(), transaction_id: z.number().nullable() })
+  ),
+  missing_dates: z.array(z.string()),
+});
+
+export const userSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  email: z.string(),
+  account_id: z.number(),
+  budget_name: z.string(),
+  primary_currency: z.string(),
+});
+
+export const cacheHealthSchema = z.object({
+  entity: z.string().describe("Entity name as refresh_cache takes it"),
+  loaded: z.boolean(),
+  size: z.number(),
+  loaded_at: z.string().nullable(),
+  ttl_seconds: z.number(),
+  error: z.string().nullable().describe("Why the last load failed, if it did"),
+});
+
+export const storeStatusSchema = z.object({
+  file: z.string(),
+  transactions: z.number(),
+  synced_at: z.string().nullable(),
+  full_sync_at: z.string().nullable(),
+  error: z.string().nullable(),
+});
+
+const fieldChangeSchema = z.object({
+  field: z.string(),
+  before: z.unknown(),
+  after: z.unknown(),
+});
+
+/**
+ * Output fields of a `dry_run` preview, merged into every mutating tool's
+ * output schema since a dry run returns it instead of the written objects.
+ */
+export const dryRunOutput = {
+  dry_run: z.literal(true).optional().describe("Set when nothing was saved"),
+  summary: z.string().optional(),
+  changes: z
+    .array(
+      z.object({
+        entity: z.string(),
+        action: z.enum(["create", "update", "delete"]),
+        id: z.number().optional(),
+        label: z.string().optional(),
+        currency: z.string().optional(),
+        fields: z.array(fieldChangeSchema),
+      })
+    )
+    .optional(),
+  warnings: z.array(z.string()).optional(),
+};
+
+// --- Hydration ---
+
+export function hydrateTransaction(t: Transaction): z.infer<typeof transactionSchema> {
+  return {
+    ...hydrateBaseTransaction(t),
+    children: t.children?.map(hydrateBaseTransaction),
+  };
+}
+
+function hydrateBaseTransaction(
+  t: Transaction | ChildTransaction
+): z.infer<typeof baseTransactionSchema> {
+  const cache = getCache();
+  const category = t.category_id !== null ? cache.categories.get(t.category_id) : undefined;
+  return {
+    id: t.id,
+    date: t.date,
+    payee: t.payee,
+    original_name: t.original_name ?? null,
+    amount: Number(t.amount),
+    currency: t.currency,
+    to_base: t.to_base,
+    category_id: t.category_id,
+    category: category?.name ?? null,
+    category_group: groupName(category?.group_id ?? null),
+    manual_account_id: t.manual_account_id,
+    plaid_account_id: t.plaid_account_id,
+    account: accountName(t.manual_account_id, t.plaid_account_id),
+    tag_ids: t.tag_ids,
+    tags: t.tag_ids.flatMap((id) => cache.tags.get(id)?.name ?? []),
+    notes: t.notes,
+    status: t.status,
+    is_pending: t.is_pending,
+    recurring_id: t.recurring_id,
+    is_split_parent: t.is_split_parent ?? false,
+    split_parent_id: t.split_parent_id,
+    is_group_parent: t.is_group_parent,
+    group_parent_id: t.group_parent_id,
+    external_id: t.external_id,
+    source: t.source,
+    created_at: t.created_at,
+    updated_at: t.updated_at,
+    custom_metadata: t.custom_metadata,
+    plaid_metadata: t.plaid_metadata,
+    files: t.files,
+  };
+}
+
+export function hydrateCategory(c: Category): z.infer<typeof categorySchema> {
+  return {
+    ...hydrateBaseCategory(c),
+    children: c.children?.map(hydrateBaseCategory),
+  };
+}
+
+function hydrateBaseCategory(c: Category | ChildCategory): z.infer<typeof baseCategorySchema> {
+  return {
+    id: c.id,
+    name: c.name,
+    description: c.description,
+    is_income: c.is_income,
+    exclude_from_budget: c.exclude_from_budget,
+    exclude_from_totals: c.exclude_from_totals,
+    is_group: c.is_group,
+    group_id: c.group_id,
+    group: groupName(c.group_id),
+    archived: c.archived,
+  };
+}
+
+export function hydrateTag(t: Tag): z.infer<typeof tagSchema> {
+  return { id: t.id, name: t.name, description: t.description, archived: t.archived };
+}
+
+export function hydrateAccount(
+  source: "manual" | "plaid",
+  a: ManualAccount | PlaidAccount
+): z.infer<typeof accountSchema> {
+  return {
+    source,
+    id: a.id,
+    name: a.display_name ?? a.name,
+    institution_name: a.institution_name,
+    type: a.type,
+    subtype: a.subtype,
+    balance: Number(a.balance),
+    currency: a.currency,
+    to_base: a.to_base,
+    status: a.status,
+  };
+}
+
+export function hydrateSummary(
+  data: Summary,
+  startDate: string,
+  endDate: string
+): z.infer<typeof summarySchema> {
+  const cache = getCache();
+  const totals = data.totals;
+  const income = cents((totals?.inflow?.other_activity ?? 0) + (totals?.inflow?.recurring_activity ?? 0));
+  const spending = cents((totals?.outflow?.other_activity ?? 0) + (totals?.outflow?.recurring_activity ?? 0));
+  return {
+    start_date: startDate,
+    end_date: endDate,
+    aligned: data.aligned,
+    totals: totals
+      ? { income, spending, net: cents(income - spending), uncategorized: totals.outflow?.uncategorized ?? 0 }
+      : null,
+    categories: data.categories.map((c) => {
+      const category = cache.categories.get(c.category_id);
+      const budget = "budgeted" in c.totals ? c.totals : { budgeted: null, available: null };
+      return {
+        category_id: c.category_id,
+        category: category?.name ?? null,
+        category_group: groupName(category?.group_id ?? null),
+        activity: cents(c.totals.other_activity + c.totals.recurring_activity),
+        other_activity: c.totals.other_activity,
+        recurring_activity: c.totals.recurring_activity,
+        budgeted: budget.budgeted,
+        available: budget.available,
+      };
+    }),
+  };
+}
+
+export function hydrateRecurring(r: Recurring): z.infer<typeof recurringSchema> {
+  const c = r.transaction_criteria;
+  const categoryId = r.overrides.category_id ?? null;
+  return {
+    id: r.id,
+    description: r.description,
+    status: r.status,
+    payee: r.overrides.payee ?? c.payee,
+    amount: Number(c.amount),
+    currency: c.currency,
+    to_base: c.to_base,
+    granularity: c.granularity,
+    quantity: c.quantity,
+    start_date: c.start_date,
+    end_date: c.end_date,
+    category_id: categoryId,
+    category: categoryId !== null ? getCache().categories.get(categoryId)?.name ?? null : null,
+    manual_account_id: c.manual_account_id,
+    plaid_account_id: c.plaid_account_id,
+    account: accountName(c.manual_account_id, c.plaid_account_id),
+    expected_dates: r.matches?.expected_occurrence_dates ?? [],
+    found_transactions: (r.matches?.found_transactions ?? []).map((f) => ({
+      date: f.date ?? null,
+      transaction_id: f.transaction_id ?? null,
+    })),
+    missing_dates: r.matches?.missing_transaction_dates ?? [],
+  };
+}
+
+export function hydrateUser(u: User): z.infer<typeof userSchema> {
+  return {
+    id: u.id,
+    name: u.name,
+    email: u.email,
+    account_id: u.account_id,
+    budget_name: u.budget_name,
+    primary_currency: u.primary_currency,
+  };
+}
+
+export function cacheHealthOutput(h: CacheHealth): z.infer<typeof cacheHealthSchema> {
+  return {
+    entity: Object.keys(CACHE_ENTITY_KEYS).find((name) => CACHE_ENTITY_KEYS[name] === h.entity)!,
+    loaded: h.loaded,
+    size: h.size,
+    loaded_at: h.loadedAt ?? null,
+    ttl_seconds: h.ttlSeconds,
+    error: h.error ?? null,
+  };
+}
+
+export function storeStatusOutput(status: StoreStatus): z.infer<typeof storeStatusSchema> {
+  return {
+    file: status.file,
+    transactions: status.transactions,
+    synced_at: status.syncedAt,
+    full_sync_at: status.fullSyncAt,
+    error: status.error,
+  };
+}
+
+/** Drop binary float noise from sums, e.g. 3156.0299999999997. */
+function cents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function groupName(groupId: number | null): string | null {
+  return groupId !== null ? getCache().categories.get(groupId)?.name ?? null : null;
+}
+
+function accountName(manualId: number | null, plaidId: number | null): string | null {
+  const cache = getCache();
+  if (manualId !== null) {
+    const account = cache.manualAccounts.get(manualId);
+    return account ? account.display_name ?? account.name : null;
+  }
+  if (plaidId !== null) {
+    const account = cache.plaidAccounts.get(plaidId);
+    return account ? account.display_name ?? account.name : null;
+  }
+  return "Cash";
+}
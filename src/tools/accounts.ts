@@ -2,12 +2,30 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { api, handleError } from "../client.js";
 import { refreshCache } from "../cache.js";
-import { formatAccounts, formatAccount } from "../format.js";
+import { formatAccounts, formatAccount, ACCOUNT_COLUMNS } from "../format.js";
+import {
+  createChange,
+  deleteChange,
+  dryRunResult,
+  updateChange,
+  DRY_RUN_DESCRIPTION,
+} from "../dryrun.js";
+import { captureBefore, recordMutation } from "../journal.js";
+import { accountSchema, dryRunOutput, hydrateAccount } from "../structured.js";
 import type { components } from "../types.js";
+import {
+  registerTool,
+  invalidArgument,
+  formattedRows,
+  outputFormatArgs,
+} from "./registry.js";
 
 type ManualAccount = components["schemas"]["manualAccountObject"];
 type PlaidAccount = components["schemas"]["plaidAccountObject"];
 
+// Fields shown for an account that would be deleted
+const ACCOUNT_FIELDS = ["name", "display_name", "type", "subtype", "institution_name", "balance", "currency", "status"];
+
 const accountTypeEnum = z.enum([
   "cash",
   "credit",
@@ -22,38 +40,58 @@ const accountTypeEnum = z.enum([
 ]);
 
 export function registerAccountTools(server: McpServer): void {
-  server.tool(
+  registerTool(
+    server,
     "get_accounts",
-    "Get all Lunch Money accounts — both manual accounts and synced (Plaid) accounts. Shows balances, types, and status.",
-    {},
-    async () => {
+    "Get all Lunch Money accounts — both manual accounts and synced (Plaid) accounts. Shows balances, types, and status. Use format=\"table\", \"csv\" or \"json\" (optionally with columns) for one row per account, with source telling manual and synced accounts apart.",
+    {
+      ...outputFormatArgs(Object.keys(accountSchema.shape), ACCOUNT_COLUMNS),
+    },
+    {
+      manual_accounts: z.array(accountSchema),
+      plaid_accounts: z.array(accountSchema),
+    },
+    async (params) => {
       const [manualRes, plaidRes] = await Promise.all([
         api.GET("/manual_accounts"),
         api.GET("/plaid_accounts"),
       ]);
 
-      if (manualRes.error) handleError(manualRes.response.status, manualRes.error);
-      if (plaidRes.error) handleError(plaidRes.response.status, plaidRes.error);
+      if (manualRes.error) handleError(manualRes.response, manualRes.error);
+      if (plaidRes.error) handleError(plaidRes.response, plaidRes.error);
 
       const manual = ((manualRes.data as { manual_accounts?: ManualAccount[] })
         ?.manual_accounts ?? []) as ManualAccount[];
       const plaid = ((plaidRes.data as { plaid_accounts?: PlaidAccount[] })
         ?.plaid_accounts ?? []) as PlaidAccount[];
 
+      const manualAccounts = manual.map((a) => hydrateAccount("manual", a));
+      const plaidAccounts = plaid.map((a) => hydrateAccount("plaid", a));
       return {
-        content: [{ type: "text", text: formatAccounts(manual, plaid) }],
+        content: [
+          {
+            type: "text",
+            text:
+              formattedRows(params, [...manualAccounts, ...plaidAccounts], ACCOUNT_COLUMNS) ??
+              formatAccounts(manual, plaid),
+          },
+        ],
+        structuredContent: { manual_accounts: manualAccounts, plaid_accounts: plaidAccounts },
       };
     }
   );
 
   // --- manage_account ---
-  server.tool(
+  registerTool(
+    server,
     "manage_account",
     `Create, update, or delete a manual Lunch Money account. Synced (Plaid) accounts are read-only.
 
 action="create": Provide name, type (cash/credit/cryptocurrency/employee compensation/investment/loan/other liability/other asset/real estate/vehicle), and balance (required). Optionally set institution_name, currency, subtype.
-action="update": Provide id and any fields to change (name, balance, institution_name, display_name, status, subtype).
-action="delete": Provide id. WARNING: this permanently deletes the account. Transactions are NOT deleted by default.`,
+action="update": Provide id and any fields to change (name, balance, currency, institution_name, display_name, status, subtype).
+action="delete": Provide id. WARNING: this permanently deletes the account. Transactions are NOT deleted by default.
+
+Set dry_run=true to preview the change as a field-by-field before/after diff without saving it.`,
     {
       action: z.enum(["create", "update", "delete"]).describe("The operation to perform"),
       id: z.number().optional().describe("Account ID (required for update/delete)"),
@@ -65,15 +103,19 @@ action="delete": Provide id. WARNING: this permanently deletes the account. Tran
       currency: z.string().optional().describe("Three-letter currency code"),
       subtype: z.string().optional().describe("Account subtype (e.g. checking, savings, retirement)"),
       status: z.enum(["active", "closed"]).optional().describe("Account status"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+    },
+    {
+      action: z.string().optional().describe("The action performed"),
+      account: accountSchema.optional().describe("The manual account as saved"),
+      deleted_id: z.number().optional().describe("ID of the deleted account"),
+      ...dryRunOutput,
     },
     async (params) => {
       switch (params.action) {
         case "create": {
           if (!params.name || !params.type || params.balance === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: name, type, and balance are required for create." }],
-              isError: true,
-            };
+            return invalidArgument("name", "name, type, and balance are required for create.");
           }
           const body: Record<string, unknown> = {
             name: params.name,
@@ -87,24 +129,37 @@ action="delete": Provide id. WARNING: this permanently deletes the account. Tran
           if (params.currency !== undefined) body.currency = params.currency;
           if (params.subtype !== undefined) body.subtype = params.subtype;
 
+          if (params.dry_run) {
+            return dryRunResult({
+              summary: "Would create 1 manual account.",
+              changes: [createChange("manual_account", body, { currency: params.currency })],
+              warnings: [],
+            });
+          }
+
           const { data, error, response } = await api.POST("/manual_accounts", {
             body: body as never,
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_account",
+            action: "create",
+            args: params,
+            before: null,
+            after: data,
+          });
           await refreshCache("manualAccounts");
           return {
             content: [
               { type: "text", text: `Account created.\n\n${formatAccount(data as ManualAccount)}` },
             ],
+            structuredContent: { action: "create", account: hydrateAccount("manual", data as ManualAccount) },
           };
         }
 
         case "update": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for update." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for update.");
           }
           const body: Record<string, unknown> = {};
           if (params.name !== undefined) body.name = params.name;
@@ -115,38 +170,89 @@ action="delete": Provide id. WARNING: this permanently deletes the account. Tran
           if (params.subtype !== undefined) body.subtype = params.subtype;
           if (params.status !== undefined) body.status = params.status;
 
+          if (params.dry_run) {
+            const current = await fetchManualAccount(params.id);
+            return dryRunResult({
+              summary: "Would update 1 manual account.",
+              changes: [updateChange("manual_account", current, body, accountDetails(current))],
+              warnings: [],
+            });
+          }
+
+          const id = params.id;
+          const before = await captureBefore(() => fetchManualAccount(id));
           const { data, error, response } = await api.PUT("/manual_accounts/{id}", {
-            params: { path: { id: params.id } },
+            params: { path: { id } },
             body: body as never,
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_account",
+            action: "update",
+            args: params,
+            before,
+            after: data,
+          });
           await refreshCache("manualAccounts");
           return {
             content: [
               { type: "text", text: `Account updated.\n\n${formatAccount(data as ManualAccount)}` },
             ],
+            structuredContent: { action: "update", account: hydrateAccount("manual", data as ManualAccount) },
           };
         }
 
         case "delete": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for delete." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for delete.");
+          }
+          if (params.dry_run) {
+            const current = await fetchManualAccount(params.id);
+            return dryRunResult({
+              summary: "Would delete 1 manual account. Its transactions would be kept.",
+              changes: [deleteChange("manual_account", current, ACCOUNT_FIELDS, accountDetails(current))],
+              warnings: [],
+            });
           }
+          const id = params.id;
+          const before = await captureBefore(() => fetchManualAccount(id));
           const { error, response } = await api.DELETE("/manual_accounts/{id}", {
-            params: { path: { id: params.id } },
+            params: { path: { id } },
+          });
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_account",
+            action: "delete",
+            args: params,
+            before,
+            after: null,
+            irreversible: "manual accounts cannot be recreated with their balance history and transactions",
           });
-          if (error) handleError(response.status, error);
           await refreshCache("manualAccounts");
           return {
             content: [
               { type: "text", text: `Account ${params.id} deleted successfully. Transactions were preserved.` },
             ],
+            structuredContent: { action: "delete", deleted_id: id },
           };
         }
       }
     }
   );
 }
+
+export async function fetchManualAccount(id: number): Promise<ManualAccount> {
+  const { data, error, response } = await api.GET("/manual_accounts/{id}", {
+    params: { path: { id } },
+  });
+  if (error) handleError(response, error);
+  return data as ManualAccount;
+}
+
+function accountDetails(account: ManualAccount) {
+  return {
+    id: account.id,
+    label: account.display_name ?? account.name,
+    currency: account.currency,
+  };
+}
@@ -2,47 +2,97 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { api, handleError } from "../client.js";
 import { refreshCache } from "../cache.js";
-import { formatCategories, formatCategory, formatDeleteResult } from "../format.js";
+import {
+  formatCategories,
+  formatCategory,
+  formatDeleteResult,
+  CATEGORY_COLUMNS,
+  OUTPUT_FORMATS,
+} from "../format.js";
+import {
+  createChange,
+  deleteChange,
+  dryRunResult,
+  updateChange,
+  DRY_RUN_DESCRIPTION,
+} from "../dryrun.js";
+import { captureBefore, recordMutation } from "../journal.js";
+import { nameArgDescription, resolveNames } from "../resolve.js";
+import { categorySchema, dryRunOutput, hydrateCategory } from "../structured.js";
 import type { components } from "../types.js";
+import {
+  registerTool,
+  invalidArgument,
+  errorResult,
+  formattedRows,
+  outputFormatArgs,
+} from "./registry.js";
 
 type Category = components["schemas"]["categoryObject"];
 
+// Fields shown for a category that would be deleted
+const CATEGORY_FIELDS = ["name", "description", "is_income", "is_group", "group_id", "archived"];
+
 export function registerCategoryTools(server: McpServer): void {
-  server.tool(
+  registerTool(
+    server,
     "list_categories",
-    `List all Lunch Money categories. Use format="nested" to see category groups with their children, or format="flat" (default) for a flat list.`,
+    `List all Lunch Money categories. Use view="nested" to see category groups with their children, or view="flat" (default) for a flat list. Use format="table", "csv" or "json" (optionally with columns) for compact output; those list groups and categories as rows, each group followed by its children in the nested view.`,
     {
-      format: z
+      view: z
         .enum(["nested", "flat"])
         .optional()
         .describe("nested = grouped hierarchy, flat = all categories in a list (default: flat)"),
+      ...outputFormatArgs(Object.keys(categorySchema.shape), CATEGORY_COLUMNS),
+      // "nested" and "flat" were the values of `format` before it chose the output format
+      format: z
+        .enum([...OUTPUT_FORMATS, "nested", "flat"])
+        .optional()
+        .describe('Output format: "text" (default), "table" (compact markdown table), "csv" or "json". "nested"/"flat" are accepted as a shorthand for view with text output'),
     },
+    { categories: z.array(categorySchema) },
     async (params) => {
-      const apiFormat = params.format === "flat" ? "flattened" : (params.format ?? "flattened");
+      const legacyView = params.format === "nested" || params.format === "flat" ? params.format : undefined;
+      const view = params.view ?? legacyView ?? "flat";
+      const format = legacyView ? "text" : (params.format as (typeof OUTPUT_FORMATS)[number] | undefined);
       const { data, error, response } = await api.GET("/categories", {
-        params: { query: { format: apiFormat as "nested" | "flattened" } },
+        params: { query: { format: view === "nested" ? "nested" : "flattened" } },
       });
-      if (error) handleError(response.status, error);
+      if (error) handleError(response, error);
 
       const categories = (data?.categories ?? []) as Category[];
-      const displayFormat = apiFormat === "nested" ? "nested" : "flat";
+      const hydrated = categories.map(hydrateCategory);
+      // The flattened response already lists children at the top level
+      const rows =
+        view === "nested"
+          ? hydrated.flatMap(({ children, ...group }) => [group, ...(children ?? [])])
+          : hydrated.map(({ children: _children, ...category }) => category);
 
       return {
         content: [
-          { type: "text", text: formatCategories(categories, displayFormat) },
+          {
+            type: "text",
+            text:
+              formattedRows({ format, columns: params.columns }, rows, CATEGORY_COLUMNS) ??
+              formatCategories(categories, view),
+          },
         ],
+        structuredContent: { categories: hydrated },
       };
     }
   );
 
   // --- manage_category ---
-  server.tool(
+  registerTool(
+    server,
     "manage_category",
     `Create, update, or delete a Lunch Money category.
 
-action="create": Provide name (required). Optionally set description, is_income, exclude_from_budget, exclude_from_totals, is_group, group_id.
-action="update": Provide id and any fields to change (name, description, is_income, exclude_from_budget, exclude_from_totals, archived, group_id).
-action="delete": Provide id. Use force=true to delete even if the category has dependent transactions/rules.`,
+action="create": Provide name (required). Optionally set description, is_income, exclude_from_budget, exclude_from_totals, is_group, group_id (or group by name).
+action="update": Provide id and any fields to change (name, description, is_income, exclude_from_budget, exclude_from_totals, archived, group_id or group).
+action="delete": Provide id. Use force=true to delete even if the category has dependent transactions/rules.
+
+Set dry_run=true to preview the change as a field-by-field before/after diff without saving it.`,
     {
       action: z.enum(["create", "update", "delete"]).describe("The operation to perform"),
       id: z.number().optional().describe("Category ID (required for update/delete)"),
@@ -53,17 +103,23 @@ action="delete": Provide id. Use force=true to delete even if the category has d
       exclude_from_totals: z.boolean().optional().describe("Exclude from totals"),
       is_group: z.boolean().optional().describe("Create as category group (create only)"),
       group_id: z.number().nullable().optional().describe("Parent group ID"),
+      group: z.string().optional().describe(nameArgDescription("Parent group name", "group_id", true)),
       archived: z.boolean().optional().describe("Archive/unarchive (update only)"),
       force: z.boolean().optional().describe("Force delete even with dependencies"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
     },
-    async (params) => {
+    {
+      action: z.string().optional().describe("The action performed"),
+      category: categorySchema.optional().describe("The category as saved"),
+      deleted_id: z.number().optional().describe("ID of the deleted category"),
+      ...dryRunOutput,
+    },
+    async (args) => {
+      const params = await resolveNames(args, { exact: true });
       switch (params.action) {
         case "create": {
           if (!params.name) {
-            return {
-              content: [{ type: "text", text: "Error: name is required for create." }],
-              isError: true,
-            };
+            return invalidArgument("name", "name is required for create.");
           }
           const body: Record<string, unknown> = { name: params.name };
           if (params.description !== undefined) body.description = params.description;
@@ -73,24 +129,37 @@ action="delete": Provide id. Use force=true to delete even if the category has d
           if (params.is_group !== undefined) body.is_group = params.is_group;
           if (params.group_id !== undefined) body.group_id = params.group_id;
 
+          if (params.dry_run) {
+            return dryRunResult({
+              summary: "Would create 1 category.",
+              changes: [createChange("category", body)],
+              warnings: [],
+            });
+          }
+
           const { data, error, response } = await api.POST("/categories", {
             body: body as never,
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_category",
+            action: "create",
+            args: params,
+            before: null,
+            after: data,
+          });
           await refreshCache("categories");
           return {
             content: [
               { type: "text", text: `Category created.\n\n${formatCategory(data as Category)}` },
             ],
+            structuredContent: { action: "create", category: hydrateCategory(data as Category) },
           };
         }
 
         case "update": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for update." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for update.");
           }
           const body: Record<string, unknown> = {};
           if (params.name !== undefined) body.name = params.name;
@@ -101,46 +170,101 @@ action="delete": Provide id. Use force=true to delete even if the category has d
           if (params.archived !== undefined) body.archived = params.archived;
           if (params.group_id !== undefined) body.group_id = params.group_id;
 
+          if (params.dry_run) {
+            const current = await fetchCategory(params.id);
+            return dryRunResult({
+              summary: "Would update 1 category.",
+              changes: [updateChange("category", current, body, { id: current.id, label: current.name })],
+              warnings: [],
+            });
+          }
+
+          const id = params.id;
+          const before = await captureBefore(() => fetchCategory(id));
           const { data, error, response } = await api.PUT("/categories/{id}", {
-            params: { path: { id: params.id } },
+            params: { path: { id } },
             body: body as never,
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_category",
+            action: "update",
+            args: params,
+            before,
+            after: data,
+          });
           await refreshCache("categories");
           return {
             content: [
               { type: "text", text: `Category updated.\n\n${formatCategory(data as Category)}` },
             ],
+            structuredContent: { action: "update", category: hydrateCategory(data as Category) },
           };
         }
 
         case "delete": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for delete." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for delete.");
+          }
+          if (params.dry_run) {
+            const current = await fetchCategory(params.id);
+            return dryRunResult({
+              summary: "Would delete 1 category.",
+              changes: [
+                deleteChange("category", current, CATEGORY_FIELDS, { id: current.id, label: current.name }),
+              ],
+              warnings: [
+                params.force
+                  ? "force=true: transactions, budgets and rules using this category will lose it."
+                  : "if the category is in use, the delete will be refused; pass force=true to delete anyway.",
+              ],
+            });
           }
+          const id = params.id;
+          const before = await captureBefore(() => fetchCategory(id));
           const { error, response } = await api.DELETE("/categories/{id}", {
             params: {
-              path: { id: params.id },
+              path: { id },
               query: params.force ? { force: true } : undefined,
             },
           });
           if (response.status === 422) {
             const deps = (error as { dependents?: Record<string, number> })?.dependents;
             return {
+              ...errorResult({
+                status: 422,
+                code: "has_dependencies",
+                message: `Category ${params.id} has dependencies.`,
+                field: "force",
+                suggestion: "Use force=true to delete anyway.",
+                dependents: deps,
+              }),
               content: [{ type: "text", text: formatDeleteResult("Category", params.id, deps) }],
-              isError: true,
             };
           }
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_category",
+            action: "delete",
+            args: params,
+            before,
+            after: null,
+          });
           await refreshCache("categories");
           return {
             content: [{ type: "text", text: formatDeleteResult("Category", params.id) }],
+            structuredContent: { action: "delete", deleted_id: id },
           };
         }
       }
     }
   );
 }
+
+export async function fetchCategory(id: number): Promise<Category> {
+  const { data, error, response } = await api.GET("/categories/{id}", {
+    params: { path: { id } },
+  });
+  if (error) handleError(response, error);
+  return data as Category;
+}
@@ -0,0 +1,335 @@
+import { realpathSync, readFileSync, statSync } from "node:fs";
+import { basename, isAbsolute, relative, resolve } from "node:path";
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { ensureReferenced, getCache } from "../cache.js";
+import { sessionContext } from "../context.js";
+import { formatCreateResult } from "../format.js";
+import { createChange, dryRunResult, DRY_RUN_DESCRIPTION } from "../dryrun.js";
+import {
+  decodeStatement,
+  detectFormat,
+  parseStatement,
+  StatementError,
+  type Statement,
+  type StatementRow,
+} from "../importers.js";
+import { fetchTransactionPages } from "../paginate.js";
+import { queryStore, storeAvailable } from "../store.js";
+import { nameArgDescription, resolveNames } from "../resolve.js";
+import { hydrateTransaction } from "../structured.js";
+import type { components } from "../types.js";
+import { registerTool, invalidArgument } from "./registry.js";
+import {
+  createdOutput,
+  insertTransactions,
+  repeatedExternalIds,
+  skippedRow,
+} from "./transactions.js";
+
+type Transaction = components["schemas"]["transactionObject"];
+type InsertTransaction = components["schemas"]["insertTransactionObject"];
+type SkippedDuplicate = components["schemas"]["skippedExistingExternalIdObject"];
+
+// Directory `path` may read from (relative paths resolve against it); without
+// it only `content` is accepted, so callers cannot read other server files
+const importDir = process.env.LUNCHMONEY_IMPORT_DIR?.trim() || undefined;
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// Duplicates listed in a preview before the rest are counted
+const DUPLICATE_WARNING_LIMIT = 20;
+
+const csvColumn = z.union([z.string(), z.number().int().min(0)]);
+
+export function registerImportTools(server: McpServer): void {
+  registerTool(
+    server,
+    "import_transactions",
+    `Import a bank statement file into a manual account: CSV, OFX/QFX or QIF.
+
+Give the file's text as content, or its path in the server's import directory (only when LUNCHMONEY_IMPORT_DIR is set), and the target account as manual_account_id or account (name).
+Rows already in the account are skipped: same external_id (the OFX FITID, or a CSV column mapped to external_id), or, unless match_details=false, same date, amount and payee. The rest are created in batches of 500.
+Amounts follow the bank convention: negative in the file = money out. Pass amount_sign="positive_debit" for files that write spending as positive, or map separate debit/credit columns.
+CSV: columns are recognized by common header names (date, amount, debit/credit, payee/description, memo/notes, id); map others with columns, e.g. {"date": "Booking Date", "amount": "Amount", "payee": "Counterparty"}. Non-ISO dates need date_format, e.g. "DD.MM.YYYY"; amounts like 1.234,56 need decimal_separator=",".
+QIF dates default to MM/DD/YYYY.
+
+Set dry_run=true to preview the parsed rows and the duplicates found without creating anything. The result lists created and skipped rows; undo_changes deletes everything one import created.`,
+    {
+      path: z
+        .string()
+        .optional()
+        .describe("Path of the statement file in the server's import directory (LUNCHMONEY_IMPORT_DIR)"),
+      content: z.string().optional().describe("Text of the statement, instead of path"),
+      format: z
+        .enum(["csv", "ofx", "qfx", "qif"])
+        .optional()
+        .describe("File format (default: from the file extension, else detected from the content)"),
+      manual_account_id: z.number().optional().describe("Manual account to import into"),
+      account: z.string().optional().describe(nameArgDescription("Manual account name", "manual_account_id", true)),
+      columns: z
+        .object({
+          date: csvColumn.optional(),
+          amount: csvColumn.optional(),
+          debit: csvColumn.optional().describe("Money-out column, with credit instead of amount"),
+          credit: csvColumn.optional().describe("Money-in column, with debit instead of amount"),
+          payee: csvColumn.optional(),
+          notes: csvColumn.optional(),
+          external_id: csvColumn.optional().describe("Column with the bank's unique transaction ID"),
+        })
+        .optional()
+        .describe("CSV columns by header name or 0-based index"),
+      delimiter: z.string().length(1).optional().describe("CSV field separator (default: detected)"),
+      has_header: z.boolean().optional().describe("Whether the CSV starts with a header row (default true)"),
+      skip_rows: z.number().int().min(0).optional().describe("CSV lines to skip before the header"),
+      date_format: z
+        .string()
+        .optional()
+        .describe('Date layout for CSV and QIF, e.g. "MM/DD/YYYY", "DD.MM.YY" or "YYYYMMDD"'),
+      decimal_separator: z.enum([".", ","]).optional().describe('Decimal separator of amounts (default ".")'),
+      amount_sign: z
+        .enum(["negative_debit", "positive_debit"])
+        .optional()
+        .describe('Sign of money out in the file (default "negative_debit")'),
+      currency: z
+        .string()
+        .optional()
+        .describe("Currency of the amounts (default: the file's, else the account's)"),
+      match_details: z
+        .boolean()
+        .optional()
+        .describe("Also skip rows matching an existing transaction's date, amount and payee (default true)"),
+      status: z.enum(["reviewed", "unreviewed"]).optional().describe("Review status of the new transactions"),
+      tag_ids: z.array(z.number()).optional().describe("Tag IDs for the new transactions"),
+      tags: z.array(z.string()).optional().describe(nameArgDescription("Tag names for the new transactions", "tag_ids", true)),
+      apply_rules: z.boolean().optional().describe("Apply the account's rules to the new transactions"),
+      skip_balance_update: z.boolean().optional().describe("Leave the account balance unchanged"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+    },
+    {
+      format: z.string().optional().describe("Format the file was read as"),
+      parsed: z.number().optional().describe("Transactions read from the file"),
+      ...createdOutput,
+    },
+    async (args) => {
+      const params = await resolveNames(args, { accounts: "manual", exact: true });
+      const accountId = params.manual_account_id;
+      if (accountId === undefined) {
+        return invalidArgument(
+          "manual_account_id",
+          "the account to import into is required.",
+          "Pass manual_account_id or account; get_accounts lists manual accounts."
+        );
+      }
+      if ((params.path === undefined) === (params.content === undefined)) {
+        return invalidArgument("path", "pass either path or content.", "Give the file's path, or its text as content.");
+      }
+
+      let text = params.content ?? "";
+      let fileName: string | undefined;
+      if (params.path !== undefined) {
+        if (!importDir) {
+          return invalidArgument(
+            "path",
+            "this server reads no statement files; LUNCHMONEY_IMPORT_DIR is not set.",
+            "Pass the file's text as content instead."
+          );
+        }
+        if (sessionContext()) {
+          return invalidArgument(
+            "path",
+            "sessions with their own Lunch Money token cannot read files on the server.",
+            "Pass the file's text as content instead."
+          );
+        }
+        const file = statementPath(importDir, params.path);
+        if (typeof file !== "string") return file;
+        try {
+          if (statSync(file).size > MAX_FILE_BYTES) {
+            return invalidArgument("path", `${file} is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB.`, "Split the statement into smaller files.");
+          }
+          text = decodeStatement(readFileSync(file));
+        } catch (err) {
+          return invalidArgument("path", `cannot read ${file}: ${(err as Error).message}`, "Check the path.");
+        }
+        fileName = basename(file);
+      }
+
+      let statement: Statement;
+      try {
+        const format = params.format === "qfx" ? "ofx" : params.format ?? detectFormat(text, fileName);
+        statement = parseStatement(text, format, params);
+      } catch (err) {
+        if (!(err instanceof StatementError)) throw err;
+        // Quote the text only back to a caller who sent it
+        const excerpt = params.content !== undefined && err.excerpt ? ` ${err.excerpt}` : "";
+        return invalidArgument(err.field, `${err.message}${excerpt}`, err.suggestion);
+      }
+      const source = `${fileName ?? "content"} (${statement.format.toUpperCase()})`;
+      if (statement.rows.length === 0) {
+        return invalidArgument(params.path !== undefined ? "path" : "content", `no transactions found in ${source}.`);
+      }
+
+      const currency =
+        params.currency?.toLowerCase() ?? statement.currency ?? getCache().manualAccounts.get(accountId)?.currency;
+      const rows = statement.rows.map(
+        (row): InsertTransaction => ({
+          date: row.date,
+          amount: row.amount,
+          payee: row.payee || undefined,
+          // Keeps the statement's wording for matching after the payee is renamed
+          original_name: row.payee || undefined,
+          notes: row.notes,
+          currency: currency as never,
+          manual_account_id: accountId,
+          tag_ids: params.tag_ids,
+          status: params.status,
+          external_id: row.external_id,
+        })
+      );
+
+      const existing = await accountTransactions(accountId, statement.rows);
+      const duplicates = findDuplicates(statement.rows, existing, params.match_details ?? true);
+      const fresh = rows.map((_, i) => i).filter((i) => !duplicates.has(i));
+      const rowLabel = (i: number) => `line ${statement.rows[i].line}`;
+      const found = [...duplicates.entries()].map(
+        ([i, d]): SkippedDuplicate => ({ ...d, request_transactions_index: i, request_transaction: rows[i] })
+      );
+
+      if (params.dry_run) {
+        const repeated = repeatedExternalIds(fresh.map((i) => rows[i]));
+        const warnings = [
+          ...found.slice(0, DUPLICATE_WARNING_LIMIT).map((d) => {
+            const i = d.request_transactions_index!;
+            const row = statement.rows[i];
+            return `${rowLabel(i)} (${row.date} ${row.amount} ${row.payee}) is already in the account as #${d.existing_transaction_id} (same ${d.reason === "duplicate_external_id" ? "external_id" : "date, amount and payee"}); it will be skipped.`;
+          }),
+          ...(found.length > DUPLICATE_WARNING_LIMIT
+            ? [`... and ${found.length - DUPLICATE_WARNING_LIMIT} more rows already in the account.`]
+            : []),
+          ...repeated,
+        ];
+        return dryRunResult({
+          summary: `Read ${rows.length} transaction${rows.length === 1 ? "" : "s"} from ${source}; would create ${fresh.length} and skip ${found.length} already in the account.`,
+          changes: fresh.map((i) =>
+            createChange("transaction", { ...rows[i] }, { label: rowLabel(i), currency: rows[i].currency })
+          ),
+          warnings,
+        });
+      }
+
+      const { content: _content, ...journalArgs } = params;
+      const result =
+        fresh.length > 0
+          ? await insertTransactions(
+              "import_transactions",
+              journalArgs,
+              fresh.map((i) => rows[i]),
+              { apply_rules: params.apply_rules, skip_balance_update: params.skip_balance_update }
+            )
+          : { created: [], skipped: [], batches: 0 };
+      // The API numbers its skipped rows among those sent
+      const skipped = [
+        ...found,
+        ...result.skipped.map((s) => ({ ...s, request_transactions_index: fresh[s.request_transactions_index ?? 0] })),
+      ].sort((a, b) => a.request_transactions_index! - b.request_transactions_index!);
+      await ensureReferenced(result.created);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Read ${rows.length} transaction${rows.length === 1 ? "" : "s"} from ${source}.\n\n${formatCreateResult(result.created, skipped, rowLabel)}`,
+          },
+        ],
+        structuredContent: {
+          format: statement.format,
+          parsed: rows.length,
+          created: result.created.map(hydrateTransaction),
+          skipped: skipped.map(skippedRow),
+          batches: result.batches,
+        },
+      };
+    }
+  );
+}
+
+/** The absolute path of a statement, or an error if it is outside the import directory. */
+function statementPath(importDir: string, path: string) {
+  const file = resolve(importDir, path);
+  let inside: boolean;
+  try {
+    const rel = relative(realpathSync(importDir), realpathSync(file));
+    inside = !rel.startsWith("..") && !isAbsolute(rel);
+  } catch {
+    inside = false;
+  }
+  return inside
+    ? file
+    : invalidArgument(
+        "path",
+        `${path} is not a file in the import directory ${importDir}.`,
+        "Copy the statement into the import directory, or pass its text as content."
+      );
+}
+
+/** Transactions in the account over the statement's dates, split parents and grouped ones included. */
+async function accountTransactions(accountId: number, rows: StatementRow[]): Promise<Transaction[]> {
+  const dates = rows.map((r) => r.date).sort();
+  const query = {
+    manual_account_id: accountId,
+    start_date: dates[0],
+    end_date: dates[dates.length - 1],
+    include_split_parents: true,
+    include_group_children: true,
+  };
+  return storeAvailable()
+    ? (await queryStore({ ...query, limit: Number.MAX_SAFE_INTEGER })).transactions
+    : (await fetchTransactionPages(query)).transactions;
+}
+
+/**
+ * Rows already in the account, by row index. Each existing transaction
+ * matches at most one row, so two identical purchases on one day in the
+ * file still need two existing transactions to both be skipped.
+ */
+function findDuplicates(
+  rows: StatementRow[],
+  existing: Transaction[],
+  matchDetails: boolean
+): Map<number, Pick<SkippedDuplicate, "reason" | "existing_transaction_id">> {
+  // Oldest first, so identical rows pair up with existing transactions in order
+  existing = [...existing].sort((a, b) => a.id - b.id);
+  const used = new Set<number>();
+  const duplicates = new Map<number, Pick<SkippedDuplicate, "reason" | "existing_transaction_id">>();
+  const claim = (i: number, t: Transaction | undefined, reason: SkippedDuplicate["reason"]) => {
+    if (!t) return false;
+    used.add(t.id);
+    duplicates.set(i, { reason, existing_transaction_id: t.id });
+    return true;
+  };
+
+  // Matching IDs first, so a details match cannot take a transaction an ID points to
+  for (const [i, row] of rows.entries()) {
+    if (!row.external_id) continue;
+    claim(i, existing.find((t) => !used.has(t.id) && t.external_id === row.external_id), "duplicate_external_id");
+  }
+  if (!matchDetails) return duplicates;
+  for (const [i, row] of rows.entries()) {
+    if (duplicates.has(i)) continue;
+    const payee = normalizePayee(row.payee);
+    const match = existing.find(
+      (t) =>
+        !used.has(t.id) &&
+        // A different ID on both sides means a different transaction
+        !(row.external_id && t.external_id && t.external_id !== row.external_id) &&
+        t.date === row.date &&
+        Math.abs(Number(t.amount) - row.amount) < 0.005 &&
+        (normalizePayee(t.payee) === payee || normalizePayee(t.original_name ?? "") === payee)
+    );
+    claim(i, match, "duplicate_payee_amount_date");
+  }
+  return duplicates;
+}
+
+function normalizePayee(payee: string): string {
+  return payee.toLowerCase().replace(/\s+/g, " ").trim();
+}
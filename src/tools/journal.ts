@@ -0,0 +1,533 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { api, handleError } from "../client.js";
+import { refreshCache } from "../cache.js";
+import { updateChange, DRY_RUN_DESCRIPTION } from "../dryrun.js";
+import {
+  describeJournalEntry,
+  formatJournal,
+  formatUndoResults,
+  type UndoResult,
+} from "../format.js";
+import {
+  contextJournal,
+  journalEnabled,
+  journalFile,
+  recordMutation,
+  writtenFields,
+  type JournalEntry,
+} from "../journal.js";
+import { operationAllowed } from "../policy.js";
+import { forgetTransaction } from "../store.js";
+import type { components } from "../types.js";
+import { registerTool, invalidArgument } from "./registry.js";
+import { fetchTransaction } from "./transactions.js";
+import { fetchCategory } from "./categories.js";
+import { fetchTag } from "./tags.js";
+import { fetchManualAccount } from "./accounts.js";
+
+type Transaction = components["schemas"]["transactionObject"];
+type Category = components["schemas"]["categoryObject"];
+type Tag = components["schemas"]["tagObject"];
+
+/** A revert that is ready to run. */
+interface UndoPlan {
+  description: string;
+  run: () => Promise<unknown>;
+}
+
+// The action whose permission an undo needs, e.g. undoing a create deletes
+const INVERSE_ACTIONS: Record<string, string> = {
+  create: "delete",
+  update: "update",
+  delete: "create",
+  split: "unsplit",
+  unsplit: "split",
+  group: "ungroup",
+  ungroup: "group",
+};
+
+// Tools without an `action` argument, whose undo only needs the tool exposed
+const BULK_TOOLS = new Set(["bulk_update_transactions", "create_transactions", "import_transactions"]);
+
+// The tool and action a bulk undo performs, when it does more than rewrite fields
+const BULK_INVERSE_OPERATIONS: Record<string, [tool: string, action: string]> = {
+  create_transactions: ["manage_transaction", "delete"],
+  import_transactions: ["manage_transaction", "delete"],
+};
+
+export function registerJournalTools(server: McpServer): void {
+  // --- list_changes ---
+  registerTool(
+    server,
+    "list_changes",
+    "List the changes this server has made to the budget (from the local mutation journal), newest first, with entry IDs for undo_changes. Irreversible and already-undone entries are flagged.",
+    {
+      limit: z.number().min(1).max(200).optional().describe("Max entries (default 20)"),
+    },
+    {
+      enabled: z.boolean().describe("false when LUNCHMONEY_JOURNAL=off"),
+      file: z.string().optional(),
+      total: z.number().describe("Entries recorded for this profile"),
+      entries: z.array(
+        z.object({
+          id: z.number(),
+          timestamp: z.string(),
+          tool: z.string(),
+          action: z.string(),
+          description: z.string(),
+          undone_by: z.number().nullable(),
+          undoes: z.number().nullable(),
+          irreversible: z.string().nullable(),
+        })
+      ),
+    },
+    async (params) => {
+      if (!journalEnabled) {
+        return {
+          content: [{ type: "text", text: "The mutation journal is disabled (LUNCHMONEY_JOURNAL=off)." }],
+          structuredContent: { enabled: false, total: 0, entries: [] },
+        };
+      }
+      const { entries, undoneBy } = contextJournal();
+      const recent = entries.slice(-(params.limit ?? 20)).reverse();
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Journal: ${journalFile}\n\n${formatJournal(recent, undoneBy, entries.length)}`,
+          },
+        ],
+        structuredContent: {
+          enabled: true,
+          file: journalFile,
+          total: entries.length,
+          entries: recent.map((e) => ({
+            id: e.id,
+            timestamp: e.timestamp,
+            tool: e.tool,
+            action: e.action,
+            description: describeJournalEntry(e),
+            undone_by: undoneBy.get(e.id) ?? null,
+            undoes: e.undoes ?? null,
+            irreversible: e.irreversible ?? null,
+          })),
+        },
+      };
+    }
+  );
+
+  // --- undo_changes ---
+  registerTool(
+    server,
+    "undo_changes",
+    `Revert changes made through this server by restoring the state recorded in the mutation journal.
+
+Provide entry_id to undo one specific change (see list_changes), or last=N to undo the N most recent changes not yet undone (default 1), newest first.
+Updates are reverted by re-writing the previous field values, splits and groups are undone, and deleted transactions, categories and tags are recreated (with new IDs). Irreversible entries are skipped and reported. If a field was changed again after the journaled write, the undo stops unless force=true.`,
+    {
+      entry_id: z.number().optional().describe("Journal entry ID to undo"),
+      last: z.number().min(1).max(50).optional().describe("Undo the N most recent changes (default 1)"),
+      force: z.boolean().optional().describe("Overwrite fields that changed again since the journaled write"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+    },
+    {
+      results: z.array(
+        z.object({
+          entry: z.number().describe("Journal entry ID"),
+          status: z.enum(["undone", "planned", "skipped", "failed"]),
+          message: z.string(),
+        })
+      ),
+    },
+    async (params) => {
+      if (!journalEnabled) {
+        return {
+          content: [{ type: "text", text: "The mutation journal is disabled (LUNCHMONEY_JOURNAL=off), so there is nothing to undo." }],
+          structuredContent: { results: [] },
+        };
+      }
+
+      const { entries, undoneBy } = contextJournal();
+      let targets: JournalEntry[];
+      if (params.entry_id !== undefined) {
+        const entry = entries.find((e) => e.id === params.entry_id);
+        if (!entry) {
+          return invalidArgument(
+            "entry_id",
+            `no journal entry #${params.entry_id} for this profile.`,
+            "Call list_changes to see entry IDs."
+          );
+        }
+        targets = [entry];
+      } else {
+        // The N most recent reversible changes, plus any irreversible ones
+        // among them so they are reported rather than silently passed over
+        targets = [];
+        let remaining = params.last ?? 1;
+        const candidates = entries.filter((e) => e.undoes === undefined && !undoneBy.has(e.id));
+        for (const entry of candidates.reverse()) {
+          if (remaining === 0) break;
+          targets.push(entry);
+          if (!entry.irreversible) remaining--;
+        }
+      }
+
+      const results: UndoResult[] = [];
+      for (const entry of targets) {
+        const skip = skipReason(entry, undoneBy);
+        if (skip) {
+          results.push({ entry: entry.id, status: "skipped", message: `${describeJournalEntry(entry)} — ${skip}` });
+          continue;
+        }
+
+        const plan = planUndo(entry, params.force ?? false);
+        if (params.dry_run) {
+          results.push({ entry: entry.id, status: "planned", message: plan.description });
+          continue;
+        }
+
+        try {
+          const restored = await plan.run();
+          recordMutation({
+            tool: "undo_changes",
+            action: "undo",
+            args: { entry_id: entry.id },
+            before: entry.after,
+            after: restored ?? null,
+            irreversible: "undo entries cannot themselves be undone",
+            undoes: entry.id,
+          });
+          results.push({ entry: entry.id, status: "undone", message: plan.description });
+        } catch (err) {
+          const message = err instanceof Error ? err.message : String(err);
+          results.push({
+            entry: entry.id,
+            status: "failed",
+            message: `${message}${targets.length > 1 ? " Stopped; older changes were not undone." : ""}`,
+          });
+          break;
+        }
+      }
+
+      return {
+        content: [{ type: "text", text: formatUndoResults(results) }],
+        structuredContent: { results },
+        isError: results.some((r) => r.status === "failed"),
+      };
+    }
+  );
+}
+
+function skipReason(
+  entry: JournalEntry,
+  undoneBy: Map<number, number>
+): string | undefined {
+  if (entry.undoes !== undefined) return "undo entries cannot themselves be undone.";
+  const undoId = undoneBy.get(entry.id);
+  if (undoId !== undefined) return `already undone by #${undoId}.`;
+  if (entry.irreversible) return `irreversible: ${entry.irreversible}.`;
+  if (entry.before === null && entry.action !== "create") {
+    return "no before-state was recorded.";
+  }
+  const inverse = BULK_TOOLS.has(entry.tool) ? undefined : INVERSE_ACTIONS[entry.action];
+  if (!operationAllowed(entry.tool, inverse)) {
+    return `the permission policy does not allow ${entry.tool}${inverse ? ` action "${inverse}"` : ""}.`;
+  }
+  const operation = BULK_INVERSE_OPERATIONS[entry.tool];
+  if (operation && !operationAllowed(...operation)) {
+    return `the permission policy does not allow ${operation[0]} action "${operation[1]}".`;
+  }
+  return undefined;
+}
+
+function planUndo(entry: JournalEntry, force: boolean): UndoPlan {
+  const before = entry.before as Record<string, unknown>;
+  const after = entry.after as Record<string, unknown>;
+
+  switch (`${entry.tool}:${entry.action}`) {
+    case "manage_transaction:create":
+      return {
+        description: `delete created transaction ${after.id}.`,
+        run: () => deleteTransaction(after.id as number),
+      };
+    case "manage_transaction:update":
+      return restoreFields(entry, "transaction", force, {
+        fetch: fetchTransaction,
+        put: (id, body) => api.PUT("/transactions/{id}", { params: { path: { id } }, body: body as never }),
+      });
+    case "manage_transaction:delete": {
+      const t = before as unknown as Transaction;
+      return {
+        description: `recreate deleted transaction ${t.id} (${t.date} ${t.payee}) with a new ID.`,
+        run: () => recreateTransaction(t),
+      };
+    }
+    case "bulk_update_transactions:update":
+      return restoreBulk(entry, force);
+    case "create_transactions:create":
+    case "import_transactions:create": {
+      const created = entry.after as Transaction[];
+      return {
+        description: `delete ${created.length} created transaction${created.length === 1 ? "" : "s"}.`,
+        run: async () => {
+          for (const t of created) await deleteTransaction(t.id);
+        },
+      };
+    }
+    case "split_transaction:split":
+      return {
+        description: `unsplit transaction ${before.id}.`,
+        run: () => call(api.DELETE("/transactions/split/{id}", { params: { path: { id: before.id as number } } })),
+      };
+    case "split_transaction:unsplit": {
+      const children = (before as unknown as Transaction).children ?? [];
+      return {
+        description: `re-split transaction ${before.id} into ${children.length} parts.`,
+        run: () =>
+          call(
+            api.POST("/transactions/split/{id}", {
+              params: { path: { id: before.id as number } },
+              body: {
+                child_transactions: children.map((c) => ({
+                  amount: c.amount,
+                  payee: c.payee,
+                  date: c.date,
+                  category_id: c.category_id ?? undefined,
+                  notes: c.notes ?? undefined,
+                })),
+              },
+            })
+          ),
+      };
+    }
+    case "group_transactions:group":
+      return {
+        description: `ungroup transaction group ${after.id}.`,
+        run: () => call(api.DELETE("/transactions/group/{id}", { params: { path: { id: after.id as number } } })),
+      };
+    case "group_transactions:ungroup": {
+      const parent = before as unknown as Transaction;
+      const ids = (parent.children ?? []).map((c) => c.id);
+      return {
+        description: `regroup transactions ${ids.join(", ")} as "${parent.payee}" (new group ID).`,
+        run: () =>
+          call(
+            api.POST("/transactions/group", {
+              body: {
+                ids,
+                date: parent.date,
+                payee: parent.payee,
+                category_id: parent.category_id,
+                notes: parent.notes,
+                tag_ids: parent.tag_ids,
+              } as never,
+            })
+          ),
+      };
+    }
+    case "manage_category:create":
+      return {
+        description: `delete created category ${after.id} (${after.name}).`,
+        run: () =>
+          withRefresh("categories", call(api.DELETE("/categories/{id}", { params: { path: { id: after.id as number } } }))),
+      };
+    case "manage_category:update":
+      return restoreFields(entry, "category", force, {
+        fetch: fetchCategory,
+        put: (id, body) => api.PUT("/categories/{id}", { params: { path: { id } }, body: body as never }),
+        refresh: "categories",
+      });
+    case "manage_category:delete": {
+      const c = before as unknown as Category;
+      return {
+        description: `recreate deleted category "${c.name}" with a new ID (transactions, budgets and rules that used it are not reassigned).`,
+        run: () =>
+          withRefresh(
+            "categories",
+            call(
+              api.POST("/categories", {
+                body: {
+                  name: c.name,
+                  description: c.description ?? undefined,
+                  is_income: c.is_income,
+                  exclude_from_budget: c.exclude_from_budget,
+                  exclude_from_totals: c.exclude_from_totals,
+                  is_group: c.is_group,
+                  group_id: c.group_id ?? undefined,
+                } as never,
+              })
+            )
+          ),
+      };
+    }
+    case "manage_tag:create":
+      return {
+        description: `delete created tag ${after.id} (${after.name}).`,
+        run: () => withRefresh("tags", call(api.DELETE("/tags/{id}", { params: { path: { id: after.id as number } } }))),
+      };
+    case "manage_tag:update":
+      return restoreFields(entry, "tag", force, {
+        fetch: fetchTag,
+        put: (id, body) => api.PUT("/tags/{id}", { params: { path: { id } }, body: body as never }),
+        refresh: "tags",
+      });
+    case "manage_tag:delete": {
+      const t = before as unknown as Tag;
+      return {
+        description: `recreate deleted tag "${t.name}" with a new ID (it is not re-applied to transactions).`,
+        run: () =>
+          withRefresh(
+            "tags",
+            call(api.POST("/tags", { body: { name: t.name, description: t.description ?? undefined } as never }))
+          ),
+      };
+    }
+    case "manage_account:create":
+      return {
+        description: `delete created account ${after.id} (${after.name}).`,
+        run: () =>
+          withRefresh(
+            "manualAccounts",
+            call(api.DELETE("/manual_accounts/{id}", { params: { path: { id: after.id as number } } }))
+          ),
+      };
+    case "manage_account:update":
+      return restoreFields(entry, "account", force, {
+        fetch: fetchManualAccount,
+        put: (id, body) => api.PUT("/manual_accounts/{id}", { params: { path: { id } }, body: body as never }),
+        refresh: "manualAccounts",
+      });
+    default:
+      return {
+        description: `${describeJournalEntry(entry)} has no undo.`,
+        run: () => Promise.reject(new Error(`${entry.tool} ${entry.action} cannot be undone.`)),
+      };
+  }
+}
+
+type ApiCall = Promise<{ data?: unknown; error?: unknown; response: Response }>;
+type CachedEntity = "categories" | "tags" | "manualAccounts";
+
+interface EntityOps {
+  fetch: (id: number) => Promise<object>;
+  put: (id: number, body: Record<string, unknown>) => ApiCall;
+  /** Cache to refresh after the write */
+  refresh?: CachedEntity;
+}
+
+/** Await an API call, surfacing errors like the tools do. */
+async function call(request: ApiCall): Promise<unknown> {
+  const { data, error, response } = await request;
+  if (error) handleError(response, error);
+  return data;
+}
+
+async function withRefresh(type: CachedEntity, request: Promise<unknown>): Promise<unknown> {
+  const data = await request;
+  await refreshCache(type);
+  return data;
+}
+
+/**
+ * Re-write the fields an update entry changed, refusing when any of them
+ * changed again since, unless forced.
+ */
+function restoreFields(
+  entry: JournalEntry,
+  noun: string,
+  force: boolean,
+  ops: EntityOps
+): UndoPlan {
+  const before = entry.before as Record<string, unknown>;
+  const after = entry.after as Record<string, unknown>;
+  const id = before.id as number;
+  const fields = writtenFields(entry.args).filter((f) => f in before);
+  const body = Object.fromEntries(fields.map((f) => [f, before[f]]));
+
+  return {
+    description: `restore ${fields.join(", ")} on ${noun} ${id}.`,
+    run: async () => {
+      const current = await ops.fetch(id);
+      assertUnchanged(noun, id, entry.id, current, pick(after, fields), force);
+      const data = await call(ops.put(id, body));
+      if (ops.refresh) await refreshCache(ops.refresh);
+      return data;
+    },
+  };
+}
+
+function restoreBulk(entry: JournalEntry, force: boolean): UndoPlan {
+  const befores = entry.before as Transaction[];
+  const afters = (entry.after ?? []) as Transaction[];
+  const items = entry.args.transactions as Array<Record<string, unknown>>;
+  const body = items.map((item, i) => {
+    const before = befores[i] as unknown as Record<string, unknown>;
+    const fields = writtenFields(item).filter((f) => f in before);
+    return { id: item.id, ...Object.fromEntries(fields.map((f) => [f, before[f]])) };
+  });
+
+  return {
+    description: `restore previous values on ${body.length} transaction${body.length === 1 ? "" : "s"}.`,
+    run: async () => {
+      const current = await Promise.all(body.map((b) => fetchTransaction(b.id as number)));
+      current.forEach((t, i) => {
+        const after = afters.find((a) => a.id === t.id) as unknown as Record<string, unknown> | undefined;
+        if (after) {
+          const fields = Object.keys(body[i]).filter((f) => f !== "id");
+          assertUnchanged("transaction", t.id, entry.id, t, pick(after, fields), force);
+        }
+      });
+      return call(api.PUT("/transactions", { body: { transactions: body } as never }));
+    },
+  };
+}
+
+function assertUnchanged(
+  noun: string,
+  id: number,
+  entryId: number,
+  current: object,
+  expected: Record<string, unknown>,
+  force: boolean
+): void {
+  if (force) return;
+  const drift = updateChange(noun, current as Record<string, unknown>, expected).fields;
+  if (drift.length > 0) {
+    throw new Error(
+      `${noun} ${id} changed again after #${entryId} (${drift.map((f) => f.field).join(", ")}). Pass force=true to overwrite.`
+    );
+  }
+}
+
+async function deleteTransaction(id: number): Promise<unknown> {
+  const result = await call(api.DELETE("/transactions/{id}", { params: { path: { id } } }));
+  forgetTransaction(id);
+  return result;
+}
+
+async function recreateTransaction(t: Transaction): Promise<unknown> {
+  return call(
+    api.POST("/transactions", {
+      body: {
+        transactions: [
+          {
+            date: t.date,
+            amount: t.amount,
+            payee: t.payee,
+            currency: t.currency,
+            category_id: t.category_id ?? undefined,
+            notes: t.notes ?? undefined,
+            manual_account_id: t.manual_account_id ?? undefined,
+            tag_ids: t.tag_ids,
+            status: t.status === "delete_pending" ? undefined : t.status,
+          },
+        ],
+      },
+    })
+  );
+}
+
+function pick(obj: Record<string, unknown>, fields: string[]): Record<string, unknown> {
+  return Object.fromEntries(fields.map((f) => [f, obj[f]]));
+}
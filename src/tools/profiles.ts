@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { api, handleError, ApiError } from "../client.js";
+import { defaultProfile, profileNames, withProfile } from "../profiles.js";
+import { formatProfiles, type ProfileInfo } from "../format.js";
+import type { components } from "../types.js";
+import { registerTool } from "./registry.js";
+
+type User = components["schemas"]["userObject"];
+
+export function registerProfileTools(server: McpServer): void {
+  registerTool(
+    server,
+    "list_profiles",
+    "List the configured Lunch Money profiles (separate budgets, e.g. household and business) with each budget's name and primary currency. Pass a profile name as the `profile` argument of other tools to act on that budget.",
+    {},
+    {
+      profiles: z.array(
+        z.object({
+          name: z.string(),
+          is_default: z.boolean(),
+          budget_name: z.string().optional(),
+          primary_currency: z.string().optional(),
+          error: z.string().optional().describe("Why the profile's budget could not be read"),
+        })
+      ),
+    },
+    async () => {
+      const profiles = await Promise.all(
+        profileNames().map((name) =>
+          withProfile(name, async (): Promise<ProfileInfo> => {
+            try {
+              const { data, error, response } = await api.GET("/me");
+              if (error) handleError(response, error);
+              const user = data as User;
+              return {
+                name,
+                isDefault: name === defaultProfile(),
+                budgetName: user.budget_name,
+                currency: user.primary_currency,
+              };
+            } catch (err) {
+              if (!(err instanceof ApiError)) throw err;
+              return { name, isDefault: name === defaultProfile(), error: err.message };
+            }
+          })
+        )
+      );
+
+      return {
+        content: [{ type: "text", text: formatProfiles(profiles) }],
+        structuredContent: {
+          profiles: profiles.map((p) => ({
+            name: p.name,
+            is_default: p.isDefault,
+            budget_name: p.budgetName,
+            primary_currency: p.currency,
+            error: p.error,
+          })),
+        },
+      };
+    }
+  );
+}
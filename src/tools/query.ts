@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { formatQueryResult } from "../format.js";
+import { QUERY_SCHEMA, QUERY_TIMEOUT_MS, QueryError, runQuery, sqliteAvailable } from "../sql.js";
+import { storeAvailable } from "../store.js";
+import { registerTool, invalidArgument } from "./registry.js";
+
+export function registerQueryTools(server: McpServer): void {
+  registerTool(
+    server,
+    "query_finances",
+    `Run a read-only SQL (SQLite) query over the locally synced transactions, categories, tags and accounts, and get the result as a table. Use it for questions the other tools can't answer directly, e.g. average grocery spend on weekends in 2025 by account. The data syncs with Lunch Money before each query; the database is read-only and queries stop after ${QUERY_TIMEOUT_MS / 1000}s.
+
+Available tables and views:
+${QUERY_SCHEMA}
+
+Example: SELECT account, round(avg(amount), 2) AS avg_spend FROM transactions WHERE category = 'Groceries' AND year = '2025' AND weekday IN (0, 6) GROUP BY account`,
+    {
+      sql: z.string().min(1).describe("A single SELECT (or WITH … SELECT) statement"),
+      params: z
+        .array(z.union([z.string(), z.number(), z.null()]))
+        .optional()
+        .describe("Values for ? placeholders in the query"),
+      max_rows: z.number().min(1).max(1000).optional().describe("Max rows to return (default 100)"),
+    },
+    {
+      columns: z.array(z.string()),
+      rows: z.array(z.array(z.unknown())).describe("One array of values per row, in column order"),
+      truncated: z.boolean().describe("More rows matched than max_rows"),
+    },
+    async (params) => {
+      if (!storeAvailable()) {
+        return invalidArgument(
+          "sql",
+          "this session has no local transaction store to query.",
+          "Use list_transactions and get_summary instead."
+        );
+      }
+      if (!(await sqliteAvailable())) {
+        return invalidArgument(
+          "sql",
+          "SQLite support is not installed on this server (better-sqlite3 is an optional dependency that failed to build).",
+          "Use list_transactions and get_summary instead."
+        );
+      }
+      try {
+        const result = await runQuery(params.sql, params.params ?? [], params.max_rows ?? 100);
+        return {
+          content: [{ type: "text", text: formatQueryResult(result) }],
+          structuredContent: {
+            columns: result.columns,
+            // BLOBs have no JSON form
+            rows: result.rows.map((row) =>
+              row.map((value) => (value instanceof Uint8Array ? `<${value.length} bytes>` : value))
+            ),
+            truncated: result.truncated,
+          },
+        };
+      } catch (err) {
+        if (!(err instanceof QueryError)) throw err;
+        return invalidArgument(
+          "sql",
+          err.message,
+          "Check the statement against the tables and views in the tool description."
+        );
+      }
+    }
+  );
+}
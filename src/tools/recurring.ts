@@ -1,19 +1,25 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { api, handleError } from "../client.js";
-import { formatRecurring } from "../format.js";
+import { ensureReferenced } from "../cache.js";
+import { formatRecurring, RECURRING_COLUMNS } from "../format.js";
+import { hydrateRecurring, recurringSchema } from "../structured.js";
 import type { components } from "../types.js";
+import { registerTool, formattedRows, outputFormatArgs } from "./registry.js";
 
 type Recurring = components["schemas"]["recurringObject"];
 
 export function registerRecurringTools(server: McpServer): void {
-  server.tool(
+  registerTool(
+    server,
     "get_recurring",
-    `Get recurring items (subscriptions, bills, income). Shows expected amounts, frequency, and match status for the given period. Without dates, uses the current month.`,
+    `Get recurring items (subscriptions, bills, income). Shows expected amounts, frequency, and match status for the given period. Without dates, uses the current month. Use format="table", "csv" or "json" (optionally with columns) for compact output.`,
     {
       start_date: z.string().optional().describe("Start of period (YYYY-MM-DD)"),
       end_date: z.string().optional().describe("End of period (YYYY-MM-DD)"),
+      ...outputFormatArgs(Object.keys(recurringSchema.shape), RECURRING_COLUMNS),
     },
+    { recurring_items: z.array(recurringSchema) },
     async (params) => {
       const { data, error, response } = await api.GET("/recurring_items", {
         params: {
@@ -23,13 +29,21 @@ export function registerRecurringTools(server: McpServer): void {
           },
         },
       });
-      if (error) handleError(response.status, error);
+      if (error) handleError(response, error);
 
       const items = ((data as { recurring_items?: Recurring[] })
         ?.recurring_items ?? []) as Recurring[];
+      await ensureReferenced(items);
 
+      const hydrated = items.map(hydrateRecurring);
       return {
-        content: [{ type: "text", text: formatRecurring(items) }],
+        content: [
+          {
+            type: "text",
+            text: formattedRows(params, hydrated, RECURRING_COLUMNS) ?? formatRecurring(items),
+          },
+        ],
+        structuredContent: { recurring_items: hydrated },
       };
     }
   );
@@ -0,0 +1,234 @@
+import type {
+  McpServer,
+  RegisteredTool,
+  ToolCallback,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import type {
+  ShapeOutput,
+  ZodRawShapeCompat,
+} from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ApiError, type ErrorReport } from "../client.js";
+import { cacheHealth, ensureCache } from "../cache.js";
+import {
+  formatCacheNote,
+  formatError,
+  formatRows,
+  OUTPUT_FORMATS,
+  type OutputFormat,
+} from "../format.js";
+import { actionAllowed, readOnlyTool, toolAllowed } from "../policy.js";
+import {
+  defaultProfile,
+  hasMultipleProfiles,
+  profileNames,
+  withProfile,
+} from "../profiles.js";
+import { NameResolutionError } from "../resolve.js";
+import { markStoreStale } from "../store.js";
+
+export type ToolHandler<Args extends ZodRawShapeCompat> = (
+  args: ShapeOutput<Args>
+) => Promise<CallToolResult>;
+
+// API field names that tools expose under a different argument name
+const FIELD_ALIASES: Record<string, string> = {
+  child_transactions: "splits",
+};
+
+/**
+ * Register a tool whose failures come back as structured `isError` results
+ * (status, code, offending argument, suggested fix) instead of exceptions.
+ * With several profiles configured, every tool also takes a `profile`
+ * argument selecting the budget it acts on. Tools hidden by the permission
+ * policy are not registered, and denied actions return a policy error.
+ * While the cache is degraded, results carry a note explaining missing names.
+ * Calls to tools that write make the transaction store sync before its next read.
+ * Successful results carry `structuredContent` matching `outputSchema`, which
+ * the SDK checks before returning them; error results are not checked.
+ */
+export function registerTool<Args extends ZodRawShapeCompat>(
+  server: McpServer,
+  name: string,
+  description: string,
+  schema: Args,
+  outputSchema: ZodRawShapeCompat,
+  handler: ToolHandler<Args>
+): RegisteredTool | undefined {
+  if (!toolAllowed(name)) return undefined;
+
+  const multiProfile = hasMultipleProfiles();
+  const fullSchema = multiProfile
+    ? {
+        ...schema,
+        profile: z
+          .string()
+          .optional()
+          .describe(
+            `Lunch Money profile (budget) to use: ${profileNames().join(", ")}. Defaults to "${defaultProfile()}".`
+          ),
+      }
+    : schema;
+
+  const callback = async (
+    args: ShapeOutput<Args> & { profile?: string }
+  ): Promise<CallToolResult> => {
+    const { profile, ...rest } = args;
+    const action = (rest as { action?: unknown }).action;
+    if (typeof action === "string" && !actionAllowed(name, action)) {
+      return policyDenied(name, action, schemaActions(schema));
+    }
+    if (profile !== undefined && !profileNames().includes(profile)) {
+      return invalidArgument(
+        "profile",
+        `unknown profile "${profile}".`,
+        `Use one of: ${profileNames().join(", ")}. Call list_profiles for details.`
+      );
+    }
+    return withProfile(profile, async () => {
+      try {
+        await ensureCache();
+        return withCacheNote(await handler(rest as ShapeOutput<Args>));
+      } catch (err) {
+        return errorResult(toReport(err, Object.keys(schema)));
+      } finally {
+        // Even a failed write may have changed some transactions
+        if (!readOnlyTool(name)) markStoreStale();
+      }
+    });
+  };
+
+  // The SDK's conditional callback type cannot be resolved for a generic shape
+  return server.registerTool(
+    name,
+    { description, inputSchema: fullSchema, outputSchema },
+    callback as unknown as ToolCallback<Args>
+  );
+}
+
+/**
+ * `format` and `columns` arguments of the list tools. Columns are fields of
+ * the tool's structured rows; giving them without a format implies a table.
+ */
+export function outputFormatArgs(available: string[], defaults: string[]) {
+  return {
+    format: z
+      .enum(OUTPUT_FORMATS)
+      .optional()
+      .describe('Output format: "text" (default, readable blocks), "table" (compact markdown table), "csv" or "json"'),
+    columns: z
+      .array(z.enum(available as [string, ...string[]]))
+      .min(1)
+      .optional()
+      .describe(`Columns for table/csv/json, in order (default: ${defaults.join(", ")}). Available: ${available.join(", ")}`),
+  };
+}
+
+/**
+ * `rows` rendered in the requested table/CSV/JSON format, or null when the
+ * tool should use its own text format. `note` (e.g. "more available") is
+ * added below tables only, so CSV and JSON stay machine-readable.
+ */
+export function formattedRows(
+  args: { format?: OutputFormat; columns?: string[] },
+  rows: object[],
+  defaults: string[],
+  note?: string
+): string | null {
+  const format = args.format ?? (args.columns ? "table" : "text");
+  if (format === "text") return null;
+  const text = formatRows(rows, args.columns ?? defaults, format);
+  return format === "table" && note ? `${text}\n\n${note}` : text;
+}
+
+/** Tell the user why names are missing while the cache is degraded. */
+function withCacheNote(result: CallToolResult): CallToolResult {
+  const note = formatCacheNote(cacheHealth());
+  if (!note || result.isError) return result;
+  return { ...result, content: [...result.content, { type: "text", text: note }] };
+}
+
+/** Result for a tool call rejected before reaching the API. */
+export function invalidArgument(
+  field: string,
+  message: string,
+  suggestion?: string
+): CallToolResult {
+  return errorResult({ code: "invalid_argument", message, field, suggestion });
+}
+
+function policyDenied(
+  tool: string,
+  action: string,
+  actions: string[]
+): CallToolResult {
+  const allowed = actions.filter((a) => actionAllowed(tool, a));
+  return errorResult({
+    code: "policy_denied",
+    message: `the server's permission policy does not allow ${tool} action "${action}".`,
+    field: "action",
+    suggestion:
+      allowed.length > 0
+        ? `Allowed actions: ${allowed.join(", ")}. get_server_status shows the active policy.`
+        : "get_server_status shows the active policy.",
+  });
+}
+
+function schemaActions(schema: ZodRawShapeCompat): string[] {
+  const action = (schema as Record<string, unknown>).action;
+  return action instanceof z.ZodEnum ? (action.options as string[]) : [];
+}
+
+export function errorResult(report: ErrorReport): CallToolResult {
+  return {
+    content: [{ type: "text", text: formatError(report) }],
+    structuredContent: { error: report },
+    isError: true,
+  };
+}
+
+function toReport(err: unknown, argNames: string[]): ErrorReport {
+  if (err instanceof NameResolutionError) return err.toReport();
+  if (!(err instanceof ApiError)) {
+    return {
+      code: "internal_error",
+      message: err instanceof Error ? err.message : String(err),
+    };
+  }
+  const report = err.toReport();
+  const apiField = report.field ?? mentionedArgument(report.message, argNames);
+  if (apiField) {
+    report.field = toArgumentName(apiField, argNames);
+    report.suggestion = report.suggestion
+      ?.split(`\`${apiField}\``)
+      .join(`\`${report.field}\``);
+  }
+  return report;
+}
+
+/** First tool argument (or aliased API field) named in an error message. */
+function mentionedArgument(
+  message: string,
+  argNames: string[]
+): string | undefined {
+  const candidates = [...Object.keys(FIELD_ALIASES), ...argNames];
+  return candidates.find((name) => new RegExp(`\\b${name}\\b`).test(message));
+}
+
+/**
+ * Map an API field path onto the tool's own argument names, e.g.
+ * `child_transactions[1].amount` → `splits[1].amount`, or
+ * `transactions[0].date` → `date` for single-item tools.
+ */
+function toArgumentName(field: string, argNames: string[]): string {
+  const [root, ...rest] = field.split(".");
+  const rootName = root.replace(/\[\d+\]$/, "");
+  const alias = FIELD_ALIASES[rootName];
+  if (alias && argNames.includes(alias)) {
+    return [root.replace(rootName, alias), ...rest].join(".");
+  }
+  if (argNames.includes(rootName)) return field;
+  const leaf = rest.at(-1);
+  return leaf && argNames.includes(leaf) ? leaf : field;
+}
@@ -0,0 +1,122 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { schedulerStats } from "../client.js";
+import {
+  cacheHealth,
+  refreshCache,
+  CACHE_ENTITIES,
+  CACHE_ENTITY_KEYS,
+} from "../cache.js";
+import {
+  formatCacheHealth,
+  formatCacheRefresh,
+  formatPolicy,
+  formatServerStatus,
+  formatStoreStatus,
+} from "../format.js";
+import { currentPolicy, policyHiddenTools } from "../policy.js";
+import { storeStatus } from "../store.js";
+import {
+  cacheHealthOutput,
+  cacheHealthSchema,
+  storeStatusOutput,
+  storeStatusSchema,
+} from "../structured.js";
+import { registerTool } from "./registry.js";
+
+const ENTITY_NAMES = Object.keys(CACHE_ENTITY_KEYS) as [string, ...string[]];
+
+export function registerStatusTools(server: McpServer): void {
+  registerTool(
+    server,
+    "get_server_status",
+    "Get the MCP server's internal status: API request queue depth, concurrency and rate limits, throttling stats, cache health, local transaction store state, and the active permission policy. Useful to understand why a tool call was slow or denied, or why names show as IDs.",
+    {},
+    {
+      scheduler: z.object({
+        max_concurrency: z.number(),
+        requests_per_second: z.number(),
+        active: z.number(),
+        queued: z.number(),
+        started: z.number(),
+        coalesced: z.number(),
+        throttled: z.number(),
+        total_wait_ms: z.number(),
+        max_wait_ms: z.number(),
+      }),
+      cache: z.array(cacheHealthSchema),
+      store: storeStatusSchema.nullable().describe("null when the transaction store is off"),
+      policy: z.object({
+        source: z.string().nullable(),
+        read_only: z.boolean(),
+        allow: z.array(z.string()),
+        deny: z.array(z.string()),
+        hidden_tools: z.array(z.string()),
+      }),
+    },
+    async () => {
+      const stats = schedulerStats();
+      const health = cacheHealth();
+      const store = storeStatus();
+      const policy = currentPolicy();
+      const hidden = policyHiddenTools();
+      const text = [
+        formatServerStatus(stats),
+        formatCacheHealth(health),
+        formatStoreStatus(store),
+        formatPolicy(policy, hidden),
+      ].join("\n\n");
+      return {
+        content: [{ type: "text", text }],
+        structuredContent: {
+          scheduler: {
+            max_concurrency: stats.maxConcurrency,
+            requests_per_second: stats.requestsPerSecond,
+            active: stats.active,
+            queued: stats.queued,
+            started: stats.started,
+            coalesced: stats.coalesced,
+            throttled: stats.throttled,
+            total_wait_ms: stats.totalWaitMs,
+            max_wait_ms: stats.maxWaitMs,
+          },
+          cache: health.map(cacheHealthOutput),
+          store: store && storeStatusOutput(store),
+          policy: {
+            source: policy.source,
+            read_only: policy.readOnly,
+            allow: policy.allow,
+            deny: policy.deny,
+            hidden_tools: hidden,
+          },
+        },
+      };
+    }
+  );
+
+  registerTool(
+    server,
+    "refresh_cache",
+    "Reload cached categories, tags, manual accounts, synced (Plaid) accounts and user info from Lunch Money right away. The cache already refreshes itself periodically and when it meets an unknown ID; use this after making changes in the Lunch Money web app that should show up immediately.",
+    {
+      entities: z
+        .array(z.enum(ENTITY_NAMES))
+        .optional()
+        .describe(`Entities to reload (default: all): ${ENTITY_NAMES.join(", ")}`),
+    },
+    { cache: z.array(cacheHealthSchema).describe("State of the reloaded entities") },
+    async (params) => {
+      const entities = params.entities
+        ? [...new Set(params.entities.map((name) => CACHE_ENTITY_KEYS[name]))]
+        : CACHE_ENTITIES;
+      await refreshCache(...entities);
+
+      const health = cacheHealth().filter((h) => entities.includes(h.entity));
+      return {
+        content: [{ type: "text", text: formatCacheRefresh(health) }],
+        structuredContent: { cache: health.map(cacheHealthOutput) },
+        isError: health.every((h) => h.error) ? true : undefined,
+      };
+    }
+  );
+}
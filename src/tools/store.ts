@@ -0,0 +1,45 @@
+import { z } from "zod";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { formatSyncResult } from "../format.js";
+import { storeAvailable, storeStatus, syncStore } from "../store.js";
+import { storeStatusOutput, storeStatusSchema } from "../structured.js";
+import { registerTool, invalidArgument } from "./registry.js";
+
+export function registerStoreTools(server: McpServer): void {
+  registerTool(
+    server,
+    "sync_transactions",
+    `Sync the local transaction store with Lunch Money now. Reads already sync automatically (incrementally, at most once a minute, and after any write through this server); use this to pick up changes made in the web app within the last minute, or with full=true to re-download everything and drop transactions deleted long ago.`,
+    {
+      full: z
+        .boolean()
+        .optional()
+        .describe("Re-download all transactions instead of only the ones created or updated since the last sync"),
+    },
+    {
+      sync: z.object({
+        full: z.boolean(),
+        added: z.number(),
+        updated: z.number(),
+        deleted: z.number(),
+        total: z.number(),
+      }),
+      store: storeStatusSchema,
+    },
+    async (params) => {
+      if (!storeAvailable()) {
+        return invalidArgument(
+          "full",
+          "this session reads transactions directly from the API and has no local store.",
+          "Use list_transactions as usual."
+        );
+      }
+      const result = await syncStore({ full: params.full, force: true });
+      const status = storeStatus()!;
+      return {
+        content: [{ type: "text", text: formatSyncResult(result!, status) }],
+        structuredContent: { sync: result!, store: storeStatusOutput(status) },
+      };
+    }
+  );
+}
@@ -1,14 +1,20 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { api, handleError } from "../client.js";
-import { formatSummary } from "../format.js";
+import { ensureReferenced } from "../cache.js";
+import { formatSummary, formatSummaryTotals, SUMMARY_COLUMNS } from "../format.js";
+import { hydrateSummary, summaryCategorySchema, summarySchema } from "../structured.js";
+import { registerTool, formattedRows, outputFormatArgs } from "./registry.js";
 
 export function registerSummaryTools(server: McpServer): void {
-  server.tool(
+  registerTool(
+    server,
     "get_summary",
     `Get a budget summary for a date range. Shows income, spending, and per-category breakdown with budget vs actual. If the date range aligns with budget periods, budget amounts and availability are included.
 
-Tip: Use the first and last day of a month for a monthly overview (e.g. 2026-02-01 to 2026-02-28).`,
+Tip: Use the first and last day of a month for a monthly overview (e.g. 2026-02-01 to 2026-02-28).
+
+format="table", "csv" or "json" (optionally with columns) lists one row per category, highest activity first; tables are followed by the totals.`,
     {
       start_date: z.string().describe("Start date (YYYY-MM-DD)"),
       end_date: z.string().describe("End date (YYYY-MM-DD)"),
@@ -16,7 +22,9 @@ Tip: Use the first and last day of a month for a monthly overview (e.g. 2026-02-
         .boolean()
         .optional()
         .describe("Include totals for income/spending (default: true)"),
+      ...outputFormatArgs(Object.keys(summaryCategorySchema.shape), SUMMARY_COLUMNS),
     },
+    { summary: summarySchema },
     async (params) => {
       const { data, error, response } = await api.GET("/summary", {
         params: {
@@ -27,19 +35,22 @@ Tip: Use the first and last day of a month for a monthly overview (e.g. 2026-02-
           },
         },
       });
-      if (error) handleError(response.status, error);
+      if (error) handleError(response, error);
+      await ensureReferenced(data);
+      const summary = hydrateSummary(data!, params.start_date, params.end_date);
+      const rows = [...summary.categories].sort((a, b) => b.activity - a.activity);
 
+      const totals = summary.totals ? formatSummaryTotals(summary.totals) : undefined;
       return {
         content: [
           {
             type: "text",
-            text: formatSummary(
-              data as Record<string, unknown>,
-              params.start_date,
-              params.end_date
-            ),
+            text:
+              formattedRows(params, rows, SUMMARY_COLUMNS, totals) ??
+              formatSummary(data as Record<string, unknown>, params.start_date, params.end_date),
           },
         ],
+        structuredContent: { summary },
       };
     }
   );
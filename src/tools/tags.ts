@@ -2,36 +2,63 @@ import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { api, handleError } from "../client.js";
 import { refreshCache } from "../cache.js";
-import { formatTags, formatTag, formatDeleteResult } from "../format.js";
+import { formatTags, formatTag, formatDeleteResult, TAG_COLUMNS } from "../format.js";
+import {
+  createChange,
+  deleteChange,
+  dryRunResult,
+  updateChange,
+  DRY_RUN_DESCRIPTION,
+} from "../dryrun.js";
+import { captureBefore, recordMutation } from "../journal.js";
+import { dryRunOutput, hydrateTag, tagSchema } from "../structured.js";
 import type { components } from "../types.js";
+import {
+  registerTool,
+  invalidArgument,
+  errorResult,
+  formattedRows,
+  outputFormatArgs,
+} from "./registry.js";
 
 type Tag = components["schemas"]["tagObject"];
 
 export function registerTagTools(server: McpServer): void {
-  server.tool(
+  registerTool(
+    server,
     "list_tags",
-    "List all Lunch Money tags. Tags can be assigned to transactions for additional organization beyond categories.",
-    {},
-    async () => {
+    "List all Lunch Money tags. Tags can be assigned to transactions for additional organization beyond categories. Use format=\"table\", \"csv\" or \"json\" (optionally with columns) for compact output.",
+    {
+      ...outputFormatArgs(Object.keys(tagSchema.shape), TAG_COLUMNS),
+    },
+    { tags: z.array(tagSchema) },
+    async (params) => {
       const { data, error, response } = await api.GET("/tags");
-      if (error) handleError(response.status, error);
+      if (error) handleError(response, error);
 
       const tags = ((data as { tags?: Tag[] })?.tags ?? []) as Tag[];
 
+      const hydrated = tags.map(hydrateTag);
       return {
-        content: [{ type: "text", text: formatTags(tags) }],
+        content: [
+          { type: "text", text: formattedRows(params, hydrated, TAG_COLUMNS) ?? formatTags(tags) },
+        ],
+        structuredContent: { tags: hydrated },
       };
     }
   );
 
   // --- manage_tag ---
-  server.tool(
+  registerTool(
+    server,
     "manage_tag",
     `Create, update, or delete a Lunch Money tag.
 
 action="create": Provide name (required). Optionally set description.
 action="update": Provide id and any fields to change (name, description, archived).
-action="delete": Provide id. Use force=true to delete even if the tag is used on transactions.`,
+action="delete": Provide id. Use force=true to delete even if the tag is used on transactions.
+
+Set dry_run=true to preview the change as a field-by-field before/after diff without saving it.`,
     {
       action: z.enum(["create", "update", "delete"]).describe("The operation to perform"),
       id: z.number().optional().describe("Tag ID (required for update/delete)"),
@@ -39,83 +66,155 @@ action="delete": Provide id. Use force=true to delete even if the tag is used on
       description: z.string().nullable().optional().describe("Tag description"),
       archived: z.boolean().optional().describe("Archive/unarchive (update only)"),
       force: z.boolean().optional().describe("Force delete even with dependencies"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+    },
+    {
+      action: z.string().optional().describe("The action performed"),
+      tag: tagSchema.optional().describe("The tag as saved"),
+      deleted_id: z.number().optional().describe("ID of the deleted tag"),
+      ...dryRunOutput,
     },
     async (params) => {
       switch (params.action) {
         case "create": {
           if (!params.name) {
-            return {
-              content: [{ type: "text", text: "Error: name is required for create." }],
-              isError: true,
-            };
+            return invalidArgument("name", "name is required for create.");
           }
           const body: Record<string, unknown> = { name: params.name };
           if (params.description !== undefined) body.description = params.description;
 
+          if (params.dry_run) {
+            return dryRunResult({
+              summary: "Would create 1 tag.",
+              changes: [createChange("tag", body)],
+              warnings: [],
+            });
+          }
+
           const { data, error, response } = await api.POST("/tags", {
             body: body as never,
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_tag",
+            action: "create",
+            args: params,
+            before: null,
+            after: data,
+          });
           await refreshCache("tags");
           return {
             content: [
               { type: "text", text: `Tag created.\n\n${formatTag(data as Tag)}` },
             ],
+            structuredContent: { action: "create", tag: hydrateTag(data as Tag) },
           };
         }
 
         case "update": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for update." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for update.");
           }
           const body: Record<string, unknown> = {};
           if (params.name !== undefined) body.name = params.name;
           if (params.description !== undefined) body.description = params.description;
           if (params.archived !== undefined) body.archived = params.archived;
 
+          if (params.dry_run) {
+            const current = await fetchTag(params.id);
+            return dryRunResult({
+              summary: "Would update 1 tag.",
+              changes: [updateChange("tag", current, body, { id: current.id, label: current.name })],
+              warnings: [],
+            });
+          }
+
+          const id = params.id;
+          const before = await captureBefore(() => fetchTag(id));
           const { data, error, response } = await api.PUT("/tags/{id}", {
-            params: { path: { id: params.id } },
+            params: { path: { id } },
             body: body as never,
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_tag",
+            action: "update",
+            args: params,
+            before,
+            after: data,
+          });
           await refreshCache("tags");
           return {
             content: [
               { type: "text", text: `Tag updated.\n\n${formatTag(data as Tag)}` },
             ],
+            structuredContent: { action: "update", tag: hydrateTag(data as Tag) },
           };
         }
 
         case "delete": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for delete." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for delete.");
+          }
+          if (params.dry_run) {
+            const current = await fetchTag(params.id);
+            return dryRunResult({
+              summary: "Would delete 1 tag.",
+              changes: [
+                deleteChange("tag", current, ["name", "description", "archived"], { id: current.id, label: current.name }),
+              ],
+              warnings: [
+                params.force
+                  ? "force=true: the tag will be removed from all transactions and rules that use it."
+                  : "if the tag is in use, the delete will be refused; pass force=true to delete anyway.",
+              ],
+            });
           }
+          const id = params.id;
+          const before = await captureBefore(() => fetchTag(id));
           const { error, response } = await api.DELETE("/tags/{id}", {
             params: {
-              path: { id: params.id },
+              path: { id },
               query: params.force ? { force: true } : undefined,
             },
           });
           if (response.status === 422) {
             const deps = (error as { dependents?: Record<string, number> })?.dependents;
             return {
+              ...errorResult({
+                status: 422,
+                code: "has_dependencies",
+                message: `Tag ${params.id} has dependencies.`,
+                field: "force",
+                suggestion: "Use force=true to delete anyway.",
+                dependents: deps,
+              }),
               content: [{ type: "text", text: formatDeleteResult("Tag", params.id, deps) }],
-              isError: true,
             };
           }
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_tag",
+            action: "delete",
+            args: params,
+            before,
+            after: null,
+          });
           await refreshCache("tags");
           return {
             content: [{ type: "text", text: formatDeleteResult("Tag", params.id) }],
+            structuredContent: { action: "delete", deleted_id: id },
           };
         }
       }
     }
   );
 }
+
+export async function fetchTag(id: number): Promise<Tag> {
+  const { data, error, response } = await api.GET("/tags/{id}", {
+    params: { path: { id } },
+  });
+  if (error) handleError(response, error);
+  return data as Tag;
+}
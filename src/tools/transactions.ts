@@ -1,97 +1,531 @@
 import { z } from "zod";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { api, handleError } from "../client.js";
-import { refreshCache } from "../cache.js";
+import { ensureReferenced, getCache } from "../cache.js";
 import {
   formatTransactions,
   formatTransaction,
+  formatTransactionDigest,
+  formatTransactionLine,
   formatBulkUpdateResult,
+  formatCreateResult,
+  TRANSACTION_COLUMNS,
+  type OutputFormat,
 } from "../format.js";
+import {
+  createChange,
+  deleteChange,
+  dryRunResult,
+  updateChange,
+  DRY_RUN_DESCRIPTION,
+  type DryRunPreview,
+  type EntityChange,
+} from "../dryrun.js";
+import { captureBefore, recordMutation } from "../journal.js";
+import {
+  decodeCursor,
+  defaultOutputBudget,
+  encodeCursor,
+  estimateTokens,
+  fitCount,
+} from "../budget.js";
+import { currentContext } from "../context.js";
+import { fetchTransactionPages } from "../paginate.js";
+import { hasMultipleProfiles } from "../profiles.js";
+import { forgetTransaction, queryStore, storeAvailable, storedTransactions, type StoreQuery } from "../store.js";
+import { nameArgDescription, resolveEach, resolveNames } from "../resolve.js";
+import { dryRunOutput, hydrateTransaction, transactionSchema } from "../structured.js";
+import type { components } from "../types.js";
+import {
+  registerTool,
+  invalidArgument,
+  formattedRows,
+  outputFormatArgs,
+} from "./registry.js";
+
+type Transaction = components["schemas"]["transactionObject"];
+type InsertTransaction = components["schemas"]["insertTransactionObject"];
+type SkippedDuplicate = components["schemas"]["skippedExistingExternalIdObject"];
+
+// A list_transactions query; metadata and files only come from the API, and
+// `all`/`max_results` walk pages instead of fetching one of `limit`
+type ListQuery = StoreQuery & {
+  include_metadata?: boolean;
+  include_files?: boolean;
+  all?: boolean;
+  max_results?: number;
+};
+
+interface SplitInput {
+  amount: number | string;
+  payee?: string;
+  date?: string;
+  category_id?: number;
+  notes?: string;
+}
+
+// Output of the single-transaction write tools; a dry run returns its preview instead
+const transactionOutput = {
+  action: z.string().optional().describe("The action performed"),
+  transaction: transactionSchema.optional().describe("The transaction as saved (created, updated, split or group parent)"),
+  deleted_id: z.number().optional().describe("ID of the transaction deleted, unsplit or ungrouped"),
+  ...dryRunOutput,
+};
+
+// Fields shown for a transaction that would be deleted
+const TRANSACTION_FIELDS = [
+  "date",
+  "payee",
+  "amount",
+  "category_id",
+  "manual_account_id",
+  "plaid_account_id",
+  "tag_ids",
+  "notes",
+  "status",
+];
+
+// Transactions the API accepts per POST /transactions; larger inputs are sent in batches
+const INSERT_BATCH_SIZE = 500;
+
+// Without the store, bulk updates of more transactions than this journal no
+// before-state rather than spend one GET per transaction on it
+const BULK_CAPTURE_LIMIT = 50;
+
+// Options of POST /transactions that apply to every row of a bulk create
+export interface InsertOptions {
+  apply_rules?: boolean;
+  skip_duplicates?: boolean;
+  skip_balance_update?: boolean;
+}
+
+// Output of the bulk create tools; a dry run returns its preview instead
+export const createdOutput = {
+  created: z.array(transactionSchema).optional().describe("The transactions created"),
+  skipped: z
+    .array(
+      z.object({
+        index: z.number().describe("Index of the skipped row in the input"),
+        reason: z.string().describe("duplicate_external_id or duplicate_payee_amount_date"),
+        existing_transaction_id: z.number().nullable().describe("The transaction it duplicates"),
+        external_id: z.string().nullable().describe("The row's external_id"),
+      })
+    )
+    .optional()
+    .describe("Rows not created because they duplicate an existing transaction"),
+  batches: z.number().optional().describe("POST /transactions requests made"),
+  ...dryRunOutput,
+};
+
+// Text fields search_transactions looks in, and where transactions come from
+const SEARCH_FIELDS = ["payee", "notes", "original_name"] as const;
+const TRANSACTION_SOURCES = [
+  "api",
+  "csv",
+  "manual",
+  "merge",
+  "plaid",
+  "recurring",
+  "rule",
+  "split",
+  "user",
+] as const;
+
+// Criteria of a search_transactions call, with names resolved to IDs
+interface SearchQuery {
+  start_date: string;
+  end_date: string;
+  query?: string;
+  regex?: boolean;
+  fields?: (typeof SEARCH_FIELDS)[number][];
+  amount?: number;
+  amount_tolerance?: number;
+  min_amount?: number;
+  max_amount?: number;
+  direction?: "debit" | "credit";
+  currency?: string;
+  sources?: (typeof TRANSACTION_SOURCES)[number][];
+  status?: "reviewed" | "unreviewed" | "delete_pending";
+  category_ids?: number[];
+  tag_ids?: number[];
+  manual_account_ids?: number[];
+  plaid_account_ids?: number[];
+  include_pending?: boolean;
+  sort?: "date" | "amount" | "payee";
+  order?: "asc" | "desc";
+  limit: number;
+  offset?: number;
+}
 
 export function registerTransactionTools(server: McpServer): void {
   // --- list_transactions ---
-  server.tool(
+  registerTool(
+    server,
     "list_transactions",
     `List or look up Lunch Money transactions. Without an id, returns filtered transactions (defaults to last 30 days if no dates given). With an id, returns that single transaction.
 
-Filters: start_date/end_date (YYYY-MM-DD), category_id, tag_id, status (reviewed/unreviewed), account_id. Use limit/offset for pagination.
+Filters: start_date/end_date (YYYY-MM-DD), category_id or category (name), tag_id or tag (name), status (reviewed/unreviewed/delete_pending), manual_account_id/plaid_account_id or account (name), recurring_id, created_since/updated_since, is_group_parent, is_pending. Use limit/offset for a single page, or all=true (or max_results) to fetch every match across pages, e.g. before adding up totals.
+
+By default the API leaves out pending transactions, split parents and the transactions inside groups; include_pending, include_split_parents and include_group_children add them. include_children lists the parts of split parents and groups, include_metadata adds custom and Plaid metadata, include_files adds attachments. status="delete_pending" finds synced transactions the bank deleted after you edited them.
 
-Returns hydrated output with category names, tag names, and account names instead of raw IDs.`,
+Returns hydrated output with category names, tag names, and account names instead of raw IDs. Use format="table", "csv" or "json" (optionally with columns) for compact output.
+
+Output is capped at max_tokens (estimated). Larger results are compacted to one line per transaction under a header with the count, money in/out and top categories, showing as many as fit; pass the returned cursor to fetch the rest.
+
+When the server runs with LUNCHMONEY_STORE=1, lists are answered from a local copy of all transactions that syncs incrementally, so multi-year ranges are fast; pass source="api" to bypass it.`,
     {
       id: z.number().optional().describe("Look up a single transaction by ID"),
       start_date: z.string().optional().describe("Start of date range (YYYY-MM-DD)"),
       end_date: z.string().optional().describe("End of date range (YYYY-MM-DD)"),
       category_id: z.number().optional().describe("Filter by category ID (0 = uncategorized)"),
+      category: z.string().optional().describe(nameArgDescription("Filter by category or category group name", "category_id")),
       tag_id: z.number().optional().describe("Filter by tag ID"),
-      status: z.enum(["reviewed", "unreviewed"]).optional().describe("Filter by review status"),
-      manual_account_id: z.number().optional().describe("Filter by manual account ID"),
-      plaid_account_id: z.number().optional().describe("Filter by synced account ID"),
-      limit: z.number().min(1).max(500).optional().describe("Max results (default 50)"),
+      tag: z.string().optional().describe(nameArgDescription("Filter by tag name", "tag_id")),
+      status: z
+        .enum(["reviewed", "unreviewed", "delete_pending"])
+        .optional()
+        .describe("Filter by status; delete_pending = deleted by the bank after you edited it, needs review"),
+      manual_account_id: z.number().optional().describe("Filter by manual account ID (0 = none)"),
+      plaid_account_id: z.number().optional().describe("Filter by synced account ID (0 = none; both 0 = cash transactions)"),
+      account: z.string().optional().describe(nameArgDescription("Filter by manual or synced account name", "manual_account_id/plaid_account_id")),
+      recurring_id: z.number().optional().describe("Filter by matched recurring item ID"),
+      created_since: z.string().optional().describe("Only transactions created at or after this date or ISO 8601 timestamp"),
+      updated_since: z.string().optional().describe("Only transactions updated at or after this date or ISO 8601 timestamp"),
+      is_group_parent: z.boolean().optional().describe("true = only transaction groups, false = no groups"),
+      is_pending: z.boolean().optional().describe("true = only pending transactions, false = only posted ones (overrides include_pending)"),
+      include_pending: z.boolean().optional().describe("Include pending transactions (excluded by default)"),
+      include_split_parents: z.boolean().optional().describe("Include transactions that were split (excluded by default)"),
+      include_group_children: z.boolean().optional().describe("Include transactions that were grouped (excluded by default)"),
+      include_children: z.boolean().optional().describe("List the parts of split parents and groups under each"),
+      include_metadata: z.boolean().optional().describe("Include custom and Plaid metadata (read from the API)"),
+      include_files: z.boolean().optional().describe("Include attached files (read from the API)"),
+      limit: z.number().min(1).max(500).optional().describe("Max results of a single page (default 50)"),
       offset: z.number().min(0).optional().describe("Offset for pagination"),
+      all: z.boolean().optional().describe("Fetch every matching transaction, walking all pages (ignores limit)"),
+      max_results: z.number().int().min(1).optional().describe("Fetch up to this many transactions, walking pages as needed (ignores limit)"),
+      cursor: z
+        .string()
+        .optional()
+        .describe("Continue a listing from the cursor a previous call returned; its filters, dates and position are used instead of the other arguments"),
+      max_tokens: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(`Output budget in estimated tokens (default ${defaultOutputBudget || "unlimited"}; 0 = unlimited)`),
+      source: z
+        .enum(["store", "api"])
+        .optional()
+        .describe("Read lists from the local transaction store (default when enabled) or directly from the API"),
+      ...outputFormatArgs(Object.keys(transactionSchema.shape), TRANSACTION_COLUMNS),
+    },
+    {
+      transactions: z.array(transactionSchema),
+      has_more: z.boolean().describe("More transactions match beyond the ones returned"),
+      next_cursor: z.string().optional().describe("Pass as cursor to fetch the next transactions"),
+      pages: z.number().optional().describe("API pages fetched with all/max_results"),
     },
-    async (params) => {
+    async (args) => {
+      const params = await resolveNames(args);
       // Single transaction lookup
       if (params.id !== undefined) {
         const { data, error, response } = await api.GET("/transactions/{id}", {
           params: { path: { id: params.id } },
         });
-        if (error) handleError(response.status, error);
+        if (error) handleError(response, error);
+        await ensureReferenced(data);
+        const transaction = hydrateTransaction(data!);
         return {
-          content: [{ type: "text", text: formatTransaction(data!) }],
+          content: [
+            {
+              type: "text",
+              text: formattedRows(params, [transaction], TRANSACTION_COLUMNS) ?? formatTransaction(data!),
+            },
+          ],
+          structuredContent: { transactions: [transaction], has_more: false },
         };
       }
 
-      // Default to last 30 days when no dates provided
-      let startDate = params.start_date;
-      let endDate = params.end_date;
-      if (!startDate && !endDate) {
-        const now = new Date();
-        endDate = now.toISOString().slice(0, 10);
-        const past = new Date(now);
-        past.setDate(past.getDate() - 30);
-        startDate = past.toISOString().slice(0, 10);
+      let query: ListQuery;
+      if (params.cursor !== undefined) {
+        const cursor = decodeCursor<ListQuery>("list_transactions", params.cursor);
+        if (!cursor) {
+          return invalidArgument(
+            "cursor",
+            "not a cursor returned by list_transactions.",
+            "Pass next_cursor exactly as a previous list_transactions call returned it."
+          );
+        }
+        if (cursor.context !== currentContext().key) return foreignCursor(cursor.context);
+        query = cursor.state;
+      } else {
+        // Default to last 30 days when no dates provided, unless asking
+        // for recent changes
+        let startDate = params.start_date;
+        let endDate = params.end_date;
+        if (!startDate && !endDate && !params.created_since && !params.updated_since) {
+          const now = new Date();
+          endDate = now.toISOString().slice(0, 10);
+          const past = new Date(now);
+          past.setDate(past.getDate() - 30);
+          startDate = past.toISOString().slice(0, 10);
+        }
+        query = {
+          start_date: startDate,
+          end_date: endDate,
+          category_id: params.category_id,
+          tag_id: params.tag_id,
+          status: params.status,
+          manual_account_id: params.manual_account_id,
+          plaid_account_id: params.plaid_account_id,
+          recurring_id: params.recurring_id,
+          created_since: params.created_since,
+          updated_since: params.updated_since,
+          is_group_parent: params.is_group_parent,
+          is_pending: params.is_pending,
+          include_pending: params.include_pending,
+          include_split_parents: params.include_split_parents,
+          include_group_children: params.include_group_children,
+          include_children: params.include_children,
+          include_metadata: params.include_metadata,
+          include_files: params.include_files,
+          limit: params.limit ?? 50,
+          offset: params.offset,
+          all: params.all,
+          max_results: params.max_results,
+        };
       }
 
-      // List transactions
-      const { data, error, response } = await api.GET("/transactions", {
-        params: {
-          query: {
-            start_date: startDate,
-            end_date: endDate,
-            category_id: params.category_id,
-            tag_id: params.tag_id,
-            status: params.status,
-            manual_account_id: params.manual_account_id,
-            plaid_account_id: params.plaid_account_id,
-            limit: params.limit ?? 50,
-            offset: params.offset,
-          },
-        },
-      });
-      if (error) handleError(response.status, error);
+      // The store keeps neither metadata nor files
+      const apiOnly = query.include_metadata ? "include_metadata" : query.include_files ? "include_files" : undefined;
+      const source = params.source ?? (storeAvailable() && !apiOnly ? "store" : "api");
+      if (source === "store" && !storeAvailable()) {
+        return invalidArgument(
+          "source",
+          "the local transaction store is not enabled.",
+          'Start the server with LUNCHMONEY_STORE=1, or use source="api".'
+        );
+      }
+      if (source === "store" && apiOnly) {
+        return invalidArgument(
+          apiOnly,
+          "the local transaction store does not keep metadata or files.",
+          'Drop source="store" to read them from the API.'
+        );
+      }
 
-      return {
-        content: [
-          {
-            type: "text",
-            text: formatTransactions(
-              data!.transactions,
-              data!.has_more
-            ),
-          },
-        ],
+      const { all, max_results, ...pageQuery } = query;
+      const paged = all === true || max_results !== undefined;
+      let data: { transactions: Transaction[]; has_more: boolean };
+      let pages: number | undefined;
+      let fetched: string | undefined;
+      if (source === "store") {
+        data = await queryStore(paged ? { ...pageQuery, limit: max_results ?? Number.MAX_SAFE_INTEGER } : pageQuery);
+        if (paged) fetched = `Read ${data.transactions.length} transactions from the local store.`;
+      } else if (paged) {
+        const { limit: _limit, ...filters } = pageQuery;
+        const result = await fetchTransactionPages(filters, max_results);
+        data = result;
+        pages = result.pages;
+        fetched = `Fetched ${result.transactions.length} transactions in ${pages} page${pages === 1 ? "" : "s"}.`;
+      } else {
+        const result = await api.GET("/transactions", { params: { query: pageQuery } });
+        if (result.error) handleError(result.response, result.error);
+        data = result.data!;
+      }
+      await ensureReferenced(data.transactions);
+      const offset = query.offset ?? 0;
+      const cursorAt = (shown: number) => {
+        // Finish what was fetched first, then continue with the same page size
+        const rest = shown < data.transactions.length ? data.transactions.length - shown : undefined;
+        return encodeCursor("list_transactions", {
+          ...query,
+          offset: offset + shown,
+          ...(rest === undefined ? {} : paged ? { max_results: rest } : { limit: rest }),
+        });
       };
+      const { content, ...listing } = renderListing("list_transactions", params, data, cursorAt, { fetched });
+      return { content, structuredContent: { ...listing, pages } };
+    }
+  );
+
+  // --- search_transactions ---
+  registerTool(
+    server,
+    "search_transactions",
+    `Search transactions by text and amount, which the API cannot filter on. Fetches every transaction in the date window (all pages, or the local store when enabled) and filters them here.
+
+Text: query matches payee, notes and original_name (the payee as the bank first named it), case-insensitively; regex=true makes it a regular expression, and fields limits where it looks.
+Amounts are compared without sign: amount with an optional amount_tolerance (e.g. amount=43.17, amount_tolerance=0.5), or min_amount/max_amount. direction="debit" keeps spending, "credit" income and refunds.
+Also: currency, sources (api, csv, manual, plaid, ...), status, and any of several categories (category_ids or categories by name; a group matches its categories), tags (tag_ids or tags) and accounts (manual_account_ids/plaid_account_ids or accounts by name).
+
+Searches the last 365 days unless start_date/end_date say otherwise. Sorted newest first by default; sort by "date", "amount" or "payee" with order "asc"/"desc". Use limit/offset or the returned cursor for more results. Output formats and the output budget work as in list_transactions.`,
+    {
+      start_date: z.string().optional().describe("Start of the window to search (YYYY-MM-DD, default 365 days ago)"),
+      end_date: z.string().optional().describe("End of the window to search (YYYY-MM-DD, default today)"),
+      query: z.string().min(1).optional().describe("Text to find in payee, notes or original name (case-insensitive)"),
+      regex: z.boolean().optional().describe("Treat query as a regular expression"),
+      fields: z.array(z.enum(SEARCH_FIELDS)).min(1).optional().describe("Fields query looks in (default: all)"),
+      amount: z.number().min(0).optional().describe("Amount to match, without sign"),
+      amount_tolerance: z.number().min(0).optional().describe("Allowed difference from amount (default 0)"),
+      min_amount: z.number().min(0).optional().describe("Smallest amount, without sign"),
+      max_amount: z.number().min(0).optional().describe("Largest amount, without sign"),
+      direction: z.enum(["debit", "credit"]).optional().describe("debit = spending, credit = income and refunds"),
+      currency: z.string().optional().describe("Three-letter currency code"),
+      sources: z.array(z.enum(TRANSACTION_SOURCES)).min(1).optional().describe("Where the transactions came from"),
+      status: z.enum(["reviewed", "unreviewed", "delete_pending"]).optional().describe("Filter by status"),
+      category_ids: z.array(z.number()).optional().describe("Any of these categories or groups (0 = uncategorized)"),
+      categories: z.array(z.string()).optional().describe(nameArgDescription("Category or group names", "category_ids")),
+      tag_ids: z.array(z.number()).optional().describe("Any of these tags"),
+      tags: z.array(z.string()).optional().describe(nameArgDescription("Tag names", "tag_ids")),
+      manual_account_ids: z.array(z.number()).optional().describe("Any of these manual accounts"),
+      plaid_account_ids: z.array(z.number()).optional().describe("Any of these synced accounts"),
+      accounts: z.array(z.string()).optional().describe(nameArgDescription("Manual or synced account names", "manual_account_ids/plaid_account_ids")),
+      include_pending: z.boolean().optional().describe("Include pending transactions"),
+      sort: z.enum(["date", "amount", "payee"]).optional().describe("Sort by date (default), amount without sign, or payee"),
+      order: z.enum(["asc", "desc"]).optional().describe("Default: desc for date and amount, asc for payee"),
+      limit: z.number().min(1).max(500).optional().describe("Max results (default 50)"),
+      offset: z.number().min(0).optional().describe("Skip this many results"),
+      cursor: z
+        .string()
+        .optional()
+        .describe("Continue a search from the cursor a previous call returned; its criteria and position are used instead of the other arguments"),
+      max_tokens: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe(`Output budget in estimated tokens (default ${defaultOutputBudget || "unlimited"}; 0 = unlimited)`),
+      source: z
+        .enum(["store", "api"])
+        .optional()
+        .describe("Search the local transaction store (default when enabled) or fetch from the API"),
+      ...outputFormatArgs(Object.keys(transactionSchema.shape), TRANSACTION_COLUMNS),
+    },
+    {
+      transactions: z.array(transactionSchema),
+      total_matches: z.number().describe("Transactions in the window matching every criterion"),
+      has_more: z.boolean().describe("More matches beyond the ones returned"),
+      next_cursor: z.string().optional().describe("Pass as cursor to fetch the next matches"),
+      pages: z.number().optional().describe("API pages fetched for the window"),
+    },
+    async (args) => {
+      const params = await resolveNames(args);
+      let search: SearchQuery;
+      if (params.cursor !== undefined) {
+        const cursor = decodeCursor<SearchQuery>("search_transactions", params.cursor);
+        if (!cursor) {
+          return invalidArgument(
+            "cursor",
+            "not a cursor returned by search_transactions.",
+            "Pass next_cursor exactly as a previous search_transactions call returned it."
+          );
+        }
+        if (cursor.context !== currentContext().key) return foreignCursor(cursor.context);
+        search = cursor.state;
+      } else {
+        const {
+          cursor: _cursor,
+          max_tokens: _maxTokens,
+          format: _format,
+          columns: _columns,
+          source: _source,
+          ...criteria
+        } = params;
+        const today = new Date().toISOString().slice(0, 10);
+        const endDate = params.end_date ?? today;
+        const past = new Date(`${endDate}T00:00:00Z`);
+        past.setUTCDate(past.getUTCDate() - 365);
+        search = {
+          ...criteria,
+          start_date: params.start_date ?? past.toISOString().slice(0, 10),
+          end_date: endDate,
+          limit: params.limit ?? 50,
+        };
+      }
+
+      let pattern: RegExp | undefined;
+      if (search.query !== undefined) {
+        try {
+          pattern = new RegExp(search.regex ? search.query : escapeRegExp(search.query), "i");
+        } catch (err) {
+          return invalidArgument(
+            "query",
+            `query is not a valid regular expression: ${(err as Error).message.replace(/^Invalid regular expression: /, "")}.`,
+            "Fix the pattern, or drop regex=true to search for the text as is."
+          );
+        }
+      }
+
+      const source = params.source ?? (storeAvailable() ? "store" : "api");
+      if (source === "store" && !storeAvailable()) {
+        return invalidArgument(
+          "source",
+          "the local transaction store is not enabled.",
+          'Start the server with LUNCHMONEY_STORE=1, or use source="api".'
+        );
+      }
+      const window = {
+        start_date: search.start_date,
+        end_date: search.end_date,
+        status: search.status,
+        include_pending: search.include_pending,
+      };
+      let candidates: Transaction[];
+      let pages: number | undefined;
+      if (source === "store") {
+        candidates = (await queryStore({ ...window, limit: Number.MAX_SAFE_INTEGER })).transactions;
+      } else {
+        const result = await fetchTransactionPages(window);
+        candidates = result.transactions;
+        pages = result.pages;
+      }
+
+      const matches = sortTransactions(
+        candidates.filter((t) => matchesSearch(t, search, pattern)),
+        search.sort ?? "date",
+        search.order
+      );
+      const offset = search.offset ?? 0;
+      const data = {
+        transactions: matches.slice(offset, offset + search.limit),
+        has_more: offset + search.limit < matches.length,
+      };
+      await ensureReferenced(data.transactions);
+
+      const searched =
+        pages === undefined
+          ? `${candidates.length} transactions in the local store`
+          : `${candidates.length} transactions fetched in ${pages} page${pages === 1 ? "" : "s"}`;
+      const fetched = `${matches.length} of ${searched} match (${search.start_date} to ${search.end_date}).`;
+      const cursorAt = (shown: number) => {
+        const rest = shown < data.transactions.length ? data.transactions.length - shown : undefined;
+        return encodeCursor("search_transactions", {
+          ...search,
+          offset: offset + shown,
+          limit: rest ?? search.limit,
+        });
+      };
+      const { content, ...listing } = renderListing("search_transactions", params, data, cursorAt, {
+        fetched,
+        moreHint: "raise limit or use the cursor below",
+      });
+      return { content, structuredContent: { ...listing, total_matches: matches.length, pages } };
     }
   );
 
   // --- manage_transaction ---
-  server.tool(
+  registerTool(
+    server,
     "manage_transaction",
     `Create, update, or delete a single Lunch Money transaction.
 
-action="create": Provide date (YYYY-MM-DD), amount (positive=debit, negative=credit), and optionally payee, category_id, notes, account_id, tag_ids, currency.
+action="create": Provide date (YYYY-MM-DD), amount (positive=debit, negative=credit), and optionally payee, category_id, notes, manual_account_id, tag_ids, currency.
 action="update": Provide id and any fields to change (payee, amount, date, category_id, notes, tag_ids, status).
-action="delete": Provide only the id of the transaction to delete.`,
+Categories, tags and accounts can be given by name instead: category, tags, account.
+action="delete": Provide only the id of the transaction to delete.
+
+Set dry_run=true to preview the change as a field-by-field before/after diff without saving it.`,
     {
       action: z.enum(["create", "update", "delete"]).describe("The operation to perform"),
       id: z.number().optional().describe("Transaction ID (required for update/delete)"),
@@ -99,20 +533,48 @@ action="delete": Provide only the id of the transaction to delete.`,
       amount: z.union([z.number(), z.string()]).optional().describe("Amount without currency symbol. Positive=debit, negative=credit"),
       payee: z.string().optional().describe("Payee name"),
       category_id: z.number().nullable().optional().describe("Category ID (null to clear)"),
+      category: z.string().optional().describe(nameArgDescription("Category name", "category_id", true)),
       notes: z.string().nullable().optional().describe("Transaction notes"),
       currency: z.string().optional().describe("Three-letter currency code (defaults to primary)"),
       manual_account_id: z.number().nullable().optional().describe("Manual account ID"),
+      account: z.string().optional().describe(nameArgDescription("Manual account name", "manual_account_id", true)),
       tag_ids: z.array(z.number()).optional().describe("Tag IDs to set"),
+      tags: z.array(z.string()).optional().describe(nameArgDescription("Tag names to set", "tag_ids", true)),
       status: z.enum(["reviewed", "unreviewed"]).optional().describe("Review status"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
     },
-    async (params) => {
+    transactionOutput,
+    async (args) => {
+      const params = await resolveNames(args, { categories: "assignable", accounts: "manual", exact: true });
       switch (params.action) {
         case "create": {
-          if (!params.date || params.amount === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: date and amount are required for create." }],
-              isError: true,
+          if (!params.date) {
+            return invalidArgument("date", "date is required for create.", "Pass the transaction date as YYYY-MM-DD.");
+          }
+          if (params.amount === undefined) {
+            return invalidArgument(
+              "amount",
+              "amount is required for create.",
+              "Pass the amount without a currency symbol: positive for a debit, negative for a credit."
+            );
+          }
+          if (params.dry_run) {
+            const values = {
+              date: params.date,
+              amount: params.amount,
+              payee: params.payee,
+              category_id: params.category_id,
+              notes: params.notes,
+              currency: params.currency,
+              manual_account_id: params.manual_account_id,
+              tag_ids: params.tag_ids,
+              status: params.status,
             };
+            return dryRunResult({
+              summary: "Would create 1 transaction.",
+              changes: [createChange("transaction", values, { currency: params.currency })],
+              warnings: [],
+            });
           }
           const { data, error, response } = await api.POST("/transactions", {
             body: {
@@ -131,9 +593,17 @@ action="delete": Provide only the id of the transaction to delete.`,
               ],
             },
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
           const result = data!;
           const created = result.transactions[0];
+          recordMutation({
+            tool: "manage_transaction",
+            action: "create",
+            args: params,
+            before: null,
+            after: created,
+          });
+          await ensureReferenced(created);
           return {
             content: [
               {
@@ -141,15 +611,13 @@ action="delete": Provide only the id of the transaction to delete.`,
                 text: `Transaction created successfully.\n\n${formatTransaction(created)}`,
               },
             ],
+            structuredContent: { action: "create", transaction: hydrateTransaction(created) },
           };
         }
 
         case "update": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for update." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for update.");
           }
           const body: Record<string, unknown> = {};
           if (params.date !== undefined) body.date = params.date;
@@ -158,14 +626,34 @@ action="delete": Provide only the id of the transaction to delete.`,
           if (params.category_id !== undefined) body.category_id = params.category_id;
           if (params.notes !== undefined) body.notes = params.notes;
           if (params.currency !== undefined) body.currency = params.currency;
+          if (params.manual_account_id !== undefined) body.manual_account_id = params.manual_account_id;
           if (params.tag_ids !== undefined) body.tag_ids = params.tag_ids;
           if (params.status !== undefined) body.status = params.status;
 
+          if (params.dry_run) {
+            const current = await fetchTransaction(params.id);
+            return dryRunResult({
+              summary: "Would update 1 transaction.",
+              changes: [updateChange("transaction", current, body, transactionDetails(current))],
+              warnings: [],
+            });
+          }
+
+          const id = params.id;
+          const before = await captureBefore(() => fetchTransaction(id));
           const { data, error, response } = await api.PUT("/transactions/{id}", {
-            params: { path: { id: params.id } },
+            params: { path: { id } },
             body: body as never,
           });
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "manage_transaction",
+            action: "update",
+            args: params,
+            before,
+            after: data,
+          });
+          await ensureReferenced(data);
           return {
             content: [
               {
@@ -173,24 +661,47 @@ action="delete": Provide only the id of the transaction to delete.`,
                 text: `Transaction updated successfully.\n\n${formatTransaction(data!)}`,
               },
             ],
+            structuredContent: { action: "update", transaction: hydrateTransaction(data!) },
           };
         }
 
         case "delete": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for delete." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for delete.");
+          }
+          if (params.dry_run) {
+            const current = await fetchTransaction(params.id);
+            return dryRunResult({
+              summary: "Would delete 1 transaction.",
+              changes: [
+                deleteChange("transaction", current, TRANSACTION_FIELDS, transactionDetails(current)),
+              ],
+              warnings: [],
+            });
           }
+          const id = params.id;
+          const before = await captureBefore(() => fetchTransaction(id));
           const { error, response } = await api.DELETE("/transactions/{id}", {
-            params: { path: { id: params.id } },
+            params: { path: { id } },
+          });
+          if (error) handleError(response, error);
+          forgetTransaction(id);
+          recordMutation({
+            tool: "manage_transaction",
+            action: "delete",
+            args: params,
+            before,
+            after: null,
+            irreversible:
+              before?.plaid_account_id != null
+                ? "synced (Plaid) transactions cannot be recreated"
+                : undefined,
           });
-          if (error) handleError(response.status, error);
           return {
             content: [
               { type: "text", text: `Transaction ${params.id} deleted successfully.` },
             ],
+            structuredContent: { action: "delete", deleted_id: id },
           };
         }
       }
@@ -198,21 +709,26 @@ action="delete": Provide only the id of the transaction to delete.`,
   );
 
   // --- bulk_update_transactions ---
-  server.tool(
+  registerTool(
+    server,
     "bulk_update_transactions",
     `Update multiple transactions at once (max 500). Each item needs an id plus the fields to change.
 
 Common uses: batch-categorize transactions, bulk mark as reviewed, assign tags to multiple transactions.
-Fields per transaction: category_id, payee, notes, tag_ids, status, date, amount, currency.`,
+Fields per transaction: category_id (or category by name), payee, notes, tag_ids (or tags by name), status, date, amount, currency.
+Set dry_run=true to fetch the current transactions and preview a before/after diff for each without saving.
+For undo_changes the previous values are journaled: from the local store when it is on, otherwise by fetching each transaction, which is skipped (and the change cannot be undone) above ${BULK_CAPTURE_LIMIT} transactions.`,
     {
       transactions: z
         .array(
           z.object({
             id: z.number().describe("Transaction ID"),
             category_id: z.number().nullable().optional().describe("Category ID (null to clear)"),
+            category: z.string().optional().describe(nameArgDescription("Category name", "category_id", true)),
             payee: z.string().optional().describe("Payee name"),
             notes: z.string().nullable().optional().describe("Notes (empty string to clear)"),
             tag_ids: z.array(z.number()).optional().describe("Tag IDs (overwrites existing)"),
+            tags: z.array(z.string()).optional().describe(nameArgDescription("Tag names (overwrites existing)", "tag_ids", true)),
             status: z.enum(["reviewed", "unreviewed"]).optional().describe("Review status"),
             date: z.string().optional().describe("Date YYYY-MM-DD"),
             amount: z.union([z.number(), z.string()]).optional().describe("Amount"),
@@ -222,8 +738,17 @@ Fields per transaction: category_id, payee, notes, tag_ids, status, date, amount
         .min(1)
         .max(500)
         .describe("Array of transactions to update, each with id + fields"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
     },
-    async (params) => {
+    {
+      transactions: z.array(transactionSchema).optional().describe("The transactions as saved"),
+      ...dryRunOutput,
+    },
+    async (args) => {
+      const params = {
+        ...args,
+        transactions: await resolveEach(args.transactions, { categories: "assignable", exact: true }, "transactions"),
+      };
       const body = params.transactions.map((t) => {
         const obj: Record<string, unknown> = { id: t.id };
         if (t.category_id !== undefined) obj.category_id = t.category_id;
@@ -237,26 +762,135 @@ Fields per transaction: category_id, payee, notes, tag_ids, status, date, amount
         return obj;
       });
 
+      if (params.dry_run) {
+        const current = await Promise.all(body.map((t) => fetchTransaction(t.id as number)));
+        const changes = body.map((updates, i) =>
+          updateChange("transaction", current[i], updates, transactionDetails(current[i]))
+        );
+        const changed = changes.filter((c) => c.fields.length > 0).length;
+        const unchanged = changes.length - changed;
+        return dryRunResult({
+          summary: `Would update ${changed} of ${changes.length} transaction${changes.length === 1 ? "" : "s"}${unchanged > 0 ? ` (${unchanged} unchanged)` : ""}.`,
+          changes,
+          warnings: [],
+        });
+      }
+
+      const before = await captureBefore(() => bulkBefore(body.map((t) => t.id as number)));
       const { data, error, response } = await api.PUT("/transactions", {
         body: { transactions: body } as never,
       });
-      if (error) handleError(response.status, error);
+      if (error) handleError(response, error);
+      recordMutation({
+        tool: "bulk_update_transactions",
+        action: "update",
+        args: params,
+        before,
+        after: data!.transactions,
+        irreversible:
+          before === null
+            ? `the previous values of more than ${BULK_CAPTURE_LIMIT} transactions are only recorded with the local store (LUNCHMONEY_STORE=1)`
+            : undefined,
+      });
+      await ensureReferenced(data!.transactions);
 
       return {
         content: [
           { type: "text", text: formatBulkUpdateResult(data!.transactions) },
         ],
+        structuredContent: { transactions: data!.transactions.map(hydrateTransaction) },
+      };
+    }
+  );
+
+  // --- create_transactions ---
+  registerTool(
+    server,
+    "create_transactions",
+    `Create many transactions at once, e.g. from a statement. Inputs over ${INSERT_BATCH_SIZE} rows are sent in batches of ${INSERT_BATCH_SIZE}.
+
+Each row needs date (YYYY-MM-DD) and amount (positive=debit, negative=credit), plus optionally payee, original_name, category_id (or category by name), notes, currency, manual_account_id or plaid_account_id (or account by name), tag_ids (or tags by name), status, recurring_id and external_id.
+Rows whose account and external_id match an existing transaction are always skipped; skip_duplicates=true also skips rows with the same date, payee, amount and account as an existing one. The result lists which rows were created and which were skipped, and why.
+apply_rules=true runs the account's rules on the new transactions. skip_balance_update=true leaves manual account balances unchanged.
+Set dry_run=true to preview the transactions without creating them (duplicates are only detected when saving).`,
+    {
+      transactions: z
+        .array(
+          z.object({
+            date: z.string().describe("Date YYYY-MM-DD"),
+            amount: z.union([z.number(), z.string()]).describe("Amount without currency symbol. Positive=debit, negative=credit"),
+            payee: z.string().optional().describe("Payee name"),
+            original_name: z.string().optional().describe("Payee as on the statement (defaults to payee)"),
+            category_id: z.number().optional().describe("Category ID"),
+            category: z.string().optional().describe(nameArgDescription("Category name", "category_id", true)),
+            notes: z.string().optional().describe("Notes"),
+            currency: z.string().optional().describe("Three-letter currency code (defaults to primary)"),
+            manual_account_id: z.number().optional().describe("Manual account ID"),
+            plaid_account_id: z.number().optional().describe("Synced account ID (the account must allow modifications)"),
+            account: z.string().optional().describe(nameArgDescription("Account name", "manual_account_id or plaid_account_id", true)),
+            tag_ids: z.array(z.number()).optional().describe("Tag IDs"),
+            tags: z.array(z.string()).optional().describe(nameArgDescription("Tag names", "tag_ids", true)),
+            status: z.enum(["reviewed", "unreviewed"]).optional().describe("Review status (defaults to unreviewed)"),
+            recurring_id: z.number().optional().describe("Recurring item the transaction belongs to"),
+            external_id: z.string().optional().describe("Your ID for the transaction; unique per account, so re-sending it is skipped"),
+          })
+        )
+        .min(1)
+        .describe("Transactions to create"),
+      apply_rules: z.boolean().optional().describe("Apply the account's rules to the new transactions"),
+      skip_duplicates: z.boolean().optional().describe("Also skip rows matching an existing transaction's date, payee, amount and account"),
+      skip_balance_update: z.boolean().optional().describe("Leave manual account balances unchanged"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
+    },
+    createdOutput,
+    async (args) => {
+      const params = {
+        ...args,
+        transactions: await resolveEach(args.transactions, { categories: "assignable", exact: true }, "transactions"),
+      };
+      for (const [i, t] of params.transactions.entries()) {
+        if (t.manual_account_id !== undefined && t.plaid_account_id !== undefined) {
+          return invalidArgument(
+            `transactions[${i}].plaid_account_id`,
+            "a transaction belongs to either a manual or a synced account, not both.",
+            "Pass only one of manual_account_id and plaid_account_id."
+          );
+        }
+      }
+      const { transactions, dry_run, ...options } = params;
+      const rows = transactions.map((t): InsertTransaction => ({ ...t, currency: t.currency as never }));
+
+      if (dry_run) {
+        return dryRunResult({
+          summary: `Would create ${rows.length} transaction${rows.length === 1 ? "" : "s"}${rows.length > INSERT_BATCH_SIZE ? ` in ${Math.ceil(rows.length / INSERT_BATCH_SIZE)} batches` : ""}.`,
+          changes: rows.map((t) => createChange("transaction", { ...t }, { currency: t.currency })),
+          warnings: repeatedExternalIds(rows),
+        });
+      }
+
+      const result = await insertTransactions("create_transactions", params, rows, options);
+      await ensureReferenced(result.created);
+      return {
+        content: [{ type: "text", text: formatCreateResult(result.created, result.skipped) }],
+        structuredContent: {
+          created: result.created.map(hydrateTransaction),
+          skipped: result.skipped.map(skippedRow),
+          batches: result.batches,
+        },
       };
     }
   );
 
   // --- split_transaction ---
-  server.tool(
+  registerTool(
+    server,
     "split_transaction",
     `Split or unsplit a Lunch Money transaction.
 
-action="split": Provide id of the transaction to split, plus a splits array. Each split has amount (required) and optionally payee, date, category_id, notes. The split amounts MUST add up to the parent transaction amount.
-action="unsplit": Provide id of the split parent to restore it to normal.`,
+action="split": Provide id of the transaction to split, plus a splits array. Each split has amount (required) and optionally payee, date, category_id (or category by name), notes. The split amounts MUST add up to the parent transaction amount.
+action="unsplit": Provide id of the split parent to restore it to normal.
+
+Set dry_run=true to preview the resulting transactions without saving.`,
     {
       action: z.enum(["split", "unsplit"]).describe("split or unsplit"),
       id: z.number().describe("Transaction ID (parent ID for unsplit)"),
@@ -267,21 +901,27 @@ action="unsplit": Provide id of the split parent to restore it to normal.`,
             payee: z.string().optional().describe("Payee (inherits from parent if omitted)"),
             date: z.string().optional().describe("Date YYYY-MM-DD (inherits from parent if omitted)"),
             category_id: z.number().optional().describe("Category ID (inherits from parent if omitted)"),
+            category: z.string().optional().describe(nameArgDescription("Category name", "category_id", true)),
             notes: z.string().optional().describe("Notes (inherits from parent if omitted)"),
           })
         )
         .optional()
         .describe("Split details (required for action=split)"),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
     },
-    async (params) => {
+    transactionOutput,
+    async (args) => {
+      const params = {
+        ...args,
+        splits: args.splits && (await resolveEach(args.splits, { categories: "assignable", exact: true }, "splits")),
+      };
       switch (params.action) {
         case "split": {
           if (!params.splits || params.splits.length < 2) {
-            return {
-              content: [{ type: "text", text: "Error: at least 2 splits are required." }],
-              isError: true,
-            };
+            return invalidArgument("splits", "at least 2 splits are required.");
           }
+          if (params.dry_run) return dryRunResult(await previewSplit(params.id, params.splits));
+          const before = await captureBefore(() => fetchTransaction(params.id));
           const { data, error, response } = await api.POST(
             "/transactions/split/{id}",
             {
@@ -297,8 +937,16 @@ action="unsplit": Provide id of the split parent to restore it to normal.`,
               },
             }
           );
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
           const parent = data!;
+          recordMutation({
+            tool: "split_transaction",
+            action: "split",
+            args: params,
+            before,
+            after: parent,
+          });
+          await ensureReferenced(parent);
           const children = (parent as Record<string, unknown>).children as Array<Record<string, unknown>> | undefined;
           const childCount = children?.length ?? params.splits.length;
           return {
@@ -308,21 +956,32 @@ action="unsplit": Provide id of the split parent to restore it to normal.`,
                 text: `Transaction split into ${childCount} parts.\n\n${formatTransaction(parent)}`,
               },
             ],
+            structuredContent: { action: "split", transaction: hydrateTransaction(parent) },
           };
         }
 
         case "unsplit": {
+          if (params.dry_run) return dryRunResult(await previewUnsplit(params.id));
+          const before = await captureBefore(() => fetchTransaction(params.id));
           const { error, response } = await api.DELETE(
             "/transactions/split/{id}",
             {
               params: { path: { id: params.id } },
             }
           );
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "split_transaction",
+            action: "unsplit",
+            args: params,
+            before,
+            after: null,
+          });
           return {
             content: [
               { type: "text", text: `Transaction ${params.id} unsplit successfully. Original transaction restored.` },
             ],
+            structuredContent: { action: "unsplit", deleted_id: params.id },
           };
         }
       }
@@ -330,12 +989,15 @@ action="unsplit": Provide id of the split parent to restore it to normal.`,
   );
 
   // --- group_transactions ---
-  server.tool(
+  registerTool(
+    server,
     "group_transactions",
     `Group or ungroup Lunch Money transactions.
 
-action="group": Combine multiple transactions into one grouped transaction. Provide ids (array of transaction IDs), date (YYYY-MM-DD), and payee (required). Optionally set category_id, notes, tag_ids. The grouped transaction amount equals the sum of the original amounts.
-action="ungroup": Provide id of the group parent to restore original transactions.`,
+action="group": Combine multiple transactions into one grouped transaction. Provide ids (array of transaction IDs), date (YYYY-MM-DD), and payee (required). Optionally set category_id (or category by name), notes, tag_ids (or tags by name). The grouped transaction amount equals the sum of the original amounts.
+action="ungroup": Provide id of the group parent to restore original transactions.
+
+Set dry_run=true to preview the grouped or restored transactions without saving.`,
     {
       action: z.enum(["group", "ungroup"]).describe("group or ungroup"),
       id: z.number().optional().describe("Group parent ID (required for ungroup)"),
@@ -343,17 +1005,19 @@ action="ungroup": Provide id of the group parent to restore original transaction
       date: z.string().optional().describe("Date for grouped transaction YYYY-MM-DD (required for group)"),
       payee: z.string().optional().describe("Payee for grouped transaction (required for group)"),
       category_id: z.number().nullable().optional().describe("Category ID for grouped transaction"),
+      category: z.string().optional().describe(nameArgDescription("Category name for grouped transaction", "category_id", true)),
       notes: z.string().nullable().optional().describe("Notes for grouped transaction"),
       tag_ids: z.array(z.number()).optional().describe("Tag IDs for grouped transaction"),
+      tags: z.array(z.string()).optional().describe(nameArgDescription("Tag names for grouped transaction", "tag_ids", true)),
+      dry_run: z.boolean().optional().describe(DRY_RUN_DESCRIPTION),
     },
-    async (params) => {
+    transactionOutput,
+    async (args) => {
+      const params = await resolveNames(args, { categories: "assignable", exact: true });
       switch (params.action) {
         case "group": {
           if (!params.ids || params.ids.length < 2 || !params.date || !params.payee) {
-            return {
-              content: [{ type: "text", text: "Error: ids (min 2), date, and payee are required for group." }],
-              isError: true,
-            };
+            return invalidArgument("ids", "ids (min 2), date, and payee are required for group.");
           }
           const body: Record<string, unknown> = {
             ids: params.ids,
@@ -364,11 +1028,23 @@ action="ungroup": Provide id of the group parent to restore original transaction
           if (params.notes !== undefined) body.notes = params.notes;
           if (params.tag_ids !== undefined) body.tag_ids = params.tag_ids;
 
+          if (params.dry_run) return dryRunResult(await previewGroup(params.ids, body));
+
+          const ids = params.ids;
+          const before = await captureBefore(() => Promise.all(ids.map(fetchTransaction)));
           const { data, error, response } = await api.POST(
             "/transactions/group",
             { body: body as never }
           );
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "group_transactions",
+            action: "group",
+            args: params,
+            before,
+            after: data,
+          });
+          await ensureReferenced(data);
           return {
             content: [
               {
@@ -376,30 +1052,368 @@ action="ungroup": Provide id of the group parent to restore original transaction
                 text: `${params.ids.length} transactions grouped.\n\n${formatTransaction(data!)}`,
               },
             ],
+            structuredContent: { action: "group", transaction: hydrateTransaction(data!) },
           };
         }
 
         case "ungroup": {
           if (params.id === undefined) {
-            return {
-              content: [{ type: "text", text: "Error: id is required for ungroup." }],
-              isError: true,
-            };
+            return invalidArgument("id", "id is required for ungroup.");
           }
+          if (params.dry_run) return dryRunResult(await previewUngroup(params.id));
+          const id = params.id;
+          const before = await captureBefore(() => fetchTransaction(id));
           const { error, response } = await api.DELETE(
             "/transactions/group/{id}",
             {
-              params: { path: { id: params.id } },
+              params: { path: { id } },
             }
           );
-          if (error) handleError(response.status, error);
+          if (error) handleError(response, error);
+          recordMutation({
+            tool: "group_transactions",
+            action: "ungroup",
+            args: params,
+            before,
+            after: null,
+          });
           return {
             content: [
               { type: "text", text: `Transaction group ${params.id} removed. Original transactions restored.` },
             ],
+            structuredContent: { action: "ungroup", deleted_id: id },
           };
         }
       }
     }
   );
 }
+
+/**
+ * Current state of the transactions a bulk update is about to change: from
+ * the store after one incremental sync when it is on, otherwise one GET per
+ * transaction for batches up to BULK_CAPTURE_LIMIT, and null beyond it.
+ */
+async function bulkBefore(ids: number[]): Promise<Transaction[] | null> {
+  if (storeAvailable()) {
+    const stored = await storedTransactions(ids);
+    return Promise.all(stored.map((t, i) => t ?? fetchTransaction(ids[i])));
+  }
+  if (ids.length > BULK_CAPTURE_LIMIT) return null;
+  return Promise.all(ids.map(fetchTransaction));
+}
+
+export async function fetchTransaction(id: number): Promise<Transaction> {
+  const { data, error, response } = await api.GET("/transactions/{id}", {
+    params: { path: { id } },
+  });
+  if (error) handleError(response, error);
+  return data!;
+}
+
+// --- Dry-run previews ---
+
+function transactionDetails(t: { id: number; date: string; payee: string; currency: string }) {
+  return { id: t.id, label: `${t.date} ${t.payee}`, currency: t.currency };
+}
+
+async function previewSplit(id: number, splits: SplitInput[]): Promise<DryRunPreview> {
+  const parent = await fetchTransaction(id);
+  const children = splits.map((s) =>
+    createChange(
+      "transaction",
+      {
+        date: s.date ?? parent.date,
+        payee: s.payee ?? parent.payee,
+        amount: s.amount,
+        category_id: s.category_id ?? parent.category_id,
+        notes: s.notes ?? parent.notes ?? undefined,
+      },
+      { label: `split of ${id}`, currency: parent.currency }
+    )
+  );
+
+  const warnings: string[] = [];
+  const total = splits.reduce((sum, s) => sum + Number(s.amount), 0);
+  if (Math.abs(total - Number(parent.amount)) > 0.005) {
+    warnings.push(
+      `split amounts sum to ${total.toFixed(2)} but transaction ${id} is ${Number(parent.amount).toFixed(2)}; the API will reject this split.`
+    );
+  }
+  if (parent.is_split_parent) warnings.push(`transaction ${id} is already split.`);
+
+  return {
+    summary: `Would split transaction ${id} into ${splits.length} parts.`,
+    changes: [
+      updateChange("transaction", parent, { is_split_parent: true }, transactionDetails(parent)),
+      ...children,
+    ],
+    warnings,
+  };
+}
+
+async function previewUnsplit(id: number): Promise<DryRunPreview> {
+  const parent = await fetchTransaction(id);
+  const children: EntityChange[] = (parent.children ?? []).map((c) =>
+    deleteChange("transaction", c, ["date", "payee", "amount", "category_id", "notes"], transactionDetails(c))
+  );
+  return {
+    summary: `Would remove ${children.length} split${children.length === 1 ? "" : "s"} and restore transaction ${id}.`,
+    changes: [
+      updateChange("transaction", parent, { is_split_parent: false }, transactionDetails(parent)),
+      ...children,
+    ],
+    warnings: parent.is_split_parent ? [] : [`transaction ${id} is not split; the API will reject this.`],
+  };
+}
+
+async function previewGroup(
+  ids: number[],
+  body: Record<string, unknown>
+): Promise<DryRunPreview> {
+  const members = await Promise.all(ids.map(fetchTransaction));
+  const total = members.reduce((sum, t) => sum + Number(t.amount), 0);
+  const group = createChange(
+    "transaction",
+    { ...body, ids: undefined, amount: total.toFixed(2) },
+    { label: "new group", currency: members[0].currency }
+  );
+
+  const warnings: string[] = [];
+  const currencies = [...new Set(members.map((t) => t.currency))];
+  if (currencies.length > 1) {
+    warnings.push(
+      `transactions use different currencies (${currencies.join(", ")}); the amount above adds them unconverted.`
+    );
+  }
+  for (const t of members.filter((t) => t.group_parent_id !== null)) {
+    warnings.push(`transaction ${t.id} already belongs to group ${t.group_parent_id}.`);
+  }
+
+  return {
+    summary: `Would group ${ids.length} transactions into one.`,
+    changes: [
+      group,
+      ...members.map((t) =>
+        updateChange("transaction", t, { group_parent_id: "new group" }, transactionDetails(t))
+      ),
+    ],
+    warnings,
+  };
+}
+
+async function previewUngroup(id: number): Promise<DryRunPreview> {
+  const parent = await fetchTransaction(id);
+  const children = parent.children ?? [];
+  return {
+    summary: `Would remove group ${id} and restore ${children.length} transaction${children.length === 1 ? "" : "s"}.`,
+    changes: [
+      deleteChange("transaction", parent, TRANSACTION_FIELDS, transactionDetails(parent)),
+      ...children.map((c) =>
+        updateChange(
+          "transaction",
+          { ...c, group_parent_id: id },
+          { group_parent_id: null },
+          transactionDetails(c)
+        )
+      ),
+    ],
+    warnings: parent.is_group_parent ? [] : [`transaction ${id} is not a group; the API will reject this.`],
+  };
+}
+
+export interface InsertResult {
+  created: Transaction[];
+  /** With `request_transactions_index` counted from the start of `rows` */
+  skipped: SkippedDuplicate[];
+  batches: number;
+}
+
+/**
+ * Create `rows` in batches of the API maximum, one request at a time, and
+ * journal what was created as one entry of `tool`. If a batch fails, the
+ * batches before it stay created and are journaled before the error is
+ * raised.
+ */
+export async function insertTransactions(
+  tool: string,
+  args: Record<string, unknown>,
+  rows: InsertTransaction[],
+  options: InsertOptions
+): Promise<InsertResult> {
+  const created: Transaction[] = [];
+  const skipped: SkippedDuplicate[] = [];
+  let batches = 0;
+  const record = () => {
+    if (created.length > 0) recordMutation({ tool, action: "create", args, before: null, after: created });
+  };
+
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    const { data, error, response } = await api.POST("/transactions", {
+      body: { transactions: rows.slice(start, start + INSERT_BATCH_SIZE), ...options },
+    });
+    if (error) {
+      record();
+      handleError(response, error);
+    }
+    batches++;
+    created.push(...data!.transactions);
+    for (const s of data!.skipped_duplicates) {
+      skipped.push({ ...s, request_transactions_index: start + (s.request_transactions_index ?? 0) });
+    }
+  }
+  record();
+  return { created, skipped, batches };
+}
+
+/** Structured form of a skipped row, as in `createdOutput`. */
+export function skippedRow(s: SkippedDuplicate) {
+  return {
+    index: s.request_transactions_index ?? 0,
+    reason: s.reason ?? "duplicate",
+    existing_transaction_id: s.existing_transaction_id ?? null,
+    external_id: s.request_transaction?.external_id ?? null,
+  };
+}
+
+/** Dry-run warnings for external IDs given to more than one row of the same account. */
+export function repeatedExternalIds(rows: InsertTransaction[]): string[] {
+  const first = new Map<string, number>();
+  const warnings: string[] = [];
+  for (const [i, t] of rows.entries()) {
+    if (!t.external_id) continue;
+    const key = `${t.manual_account_id ?? t.plaid_account_id ?? ""}:${t.external_id}`;
+    const seen = first.get(key);
+    if (seen === undefined) first.set(key, i);
+    else warnings.push(`Rows ${seen} and ${i} share external_id "${t.external_id}"; only row ${seen} will be created.`);
+  }
+  return warnings;
+}
+
+interface ListingArgs {
+  format?: OutputFormat;
+  columns?: string[];
+  max_tokens?: number;
+}
+
+/**
+ * Fetched transactions rendered in the requested format and within the
+ * output budget. Over budget, text switches to one line per transaction
+ * under a digest of all of them, and only as many as fit are returned.
+ * `cursorAt(n)` continues after the first n; `fetched` says how they were
+ * fetched, and `moreHint` how to get the rest.
+ */
+function renderListing(
+  tool: string,
+  args: ListingArgs,
+  data: { transactions: Transaction[]; has_more: boolean },
+  cursorAt: (shown: number) => string,
+  { fetched, moreHint }: { fetched?: string; moreHint?: string } = {}
+) {
+  const transactions = data.transactions.map(hydrateTransaction);
+  const budget = args.max_tokens ?? defaultOutputBudget;
+
+  // Blocks for the first `shown` transactions with notes below them;
+  // CSV and JSON get the notes as a block of their own so they stay parseable
+  const render = (shown: number, more: string | undefined, compact: boolean): string[] => {
+    const note = [fetched, more].filter(Boolean).join("\n") || undefined;
+    const rows = formattedRows(args, transactions.slice(0, shown), TRANSACTION_COLUMNS, note);
+    if (rows !== null) {
+      return note && (args.format === "csv" || args.format === "json") ? [rows, note] : [rows];
+    }
+    const text = compact
+      ? [
+          formatTransactionDigest(data.transactions, data.has_more, moreHint),
+          data.transactions.slice(0, shown).map(formatTransactionLine).join("\n"),
+        ]
+      : [formatTransactions(data.transactions, data.has_more, moreHint)];
+    return [[...text, note].filter(Boolean).join("\n\n")];
+  };
+
+  let shown = transactions.length;
+  let compact = false;
+  let note = data.has_more
+    ? `More transactions available — call ${tool} with ${continuation(cursorAt(shown))}.`
+    : undefined;
+  if (budget > 0 && estimateTokens(render(shown, note, false).join("\n\n")) > budget) {
+    compact = true;
+    const compactNote = (n: number) =>
+      n === transactions.length && !data.has_more
+        ? `Compacted to one line per transaction to fit the output budget of ${budget} tokens.`
+        : `Compacted to fit the output budget of ${budget} tokens: showing ${n} of ${transactions.length} transactions. Call ${tool} with ${continuation(cursorAt(n))} for the rest, or raise max_tokens.`;
+    shown = fitCount(transactions.length, (n) => render(n, compactNote(n), true).join("\n\n"), budget);
+    note = compactNote(shown);
+  }
+  const hasMore = data.has_more || shown < transactions.length;
+
+  return {
+    content: render(shown, note, compact).map((text) => ({ type: "text" as const, text })),
+    transactions: transactions.slice(0, shown),
+    has_more: hasMore,
+    next_cursor: hasMore ? cursorAt(shown) : undefined,
+  };
+}
+
+/** Arguments that continue a listing at `cursor`, naming the profile when there are several. */
+function continuation(cursor: string): string {
+  return hasMultipleProfiles() ? `profile="${currentContext().profile}" cursor="${cursor}"` : `cursor="${cursor}"`;
+}
+
+/** Error for a cursor made under another profile or HTTP session than this call. */
+function foreignCursor(context: string) {
+  return currentContext().session || context.startsWith("session:")
+    ? invalidArgument("cursor", "this cursor was returned in another session.", "Start the listing again without a cursor.")
+    : invalidArgument("cursor", `this cursor belongs to profile "${context}".`, `Pass profile="${context}" with the cursor.`);
+}
+
+/** Whether `t` meets every criterion of a search; `pattern` is the compiled query. */
+function matchesSearch(t: Transaction, search: SearchQuery, pattern: RegExp | undefined): boolean {
+  if (pattern) {
+    const fields = search.fields ?? SEARCH_FIELDS;
+    if (!fields.some((field) => pattern.test(t[field] ?? ""))) return false;
+  }
+
+  const signed = Number(t.amount);
+  const amount = Math.abs(signed);
+  if (search.amount !== undefined && Math.abs(amount - search.amount) > (search.amount_tolerance ?? 0) + 1e-9) {
+    return false;
+  }
+  if (search.min_amount !== undefined && amount < search.min_amount) return false;
+  if (search.max_amount !== undefined && amount > search.max_amount) return false;
+  if (search.direction === "debit" && signed < 0) return false;
+  if (search.direction === "credit" && signed >= 0) return false;
+  if (search.currency && t.currency !== search.currency.toLowerCase()) return false;
+  if (search.sources && (t.source === null || !search.sources.includes(t.source))) return false;
+
+  if (search.category_ids) {
+    // A group matches its categories, and 0 matches uncategorized
+    const group = t.category_id !== null ? getCache().categories.get(t.category_id)?.group_id : null;
+    const ids = [t.category_id ?? 0, group].filter((id) => id !== null && id !== undefined);
+    if (!ids.some((id) => search.category_ids!.includes(id))) return false;
+  }
+  if (search.tag_ids && !t.tag_ids.some((id) => search.tag_ids!.includes(id))) return false;
+  if (search.manual_account_ids || search.plaid_account_ids) {
+    const manual = t.manual_account_id !== null && (search.manual_account_ids ?? []).includes(t.manual_account_id);
+    const plaid = t.plaid_account_id !== null && (search.plaid_account_ids ?? []).includes(t.plaid_account_id);
+    if (!manual && !plaid) return false;
+  }
+  return true;
+}
+
+function sortTransactions(
+  transactions: Transaction[],
+  sort: "date" | "amount" | "payee",
+  order: "asc" | "desc" | undefined
+): Transaction[] {
+  const compare: Record<typeof sort, (a: Transaction, b: Transaction) => number> = {
+    date: (a, b) => a.date.localeCompare(b.date) || a.id - b.id,
+    amount: (a, b) => Math.abs(Number(a.amount)) - Math.abs(Number(b.amount)) || a.id - b.id,
+    payee: (a, b) => a.payee.localeCompare(b.payee, undefined, { sensitivity: "base" }) || a.id - b.id,
+  };
+  const direction = (order ?? (sort === "payee" ? "asc" : "desc")) === "asc" ? 1 : -1;
+  return [...transactions].sort((a, b) => direction * compare[sort](a, b));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
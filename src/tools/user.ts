@@ -1,18 +1,26 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { api, handleError } from "../client.js";
 import { formatUser } from "../format.js";
+import { hydrateUser, userSchema } from "../structured.js";
+import type { components } from "../types.js";
+import { registerTool } from "./registry.js";
+
+type User = components["schemas"]["userObject"];
 
 export function registerUserTools(server: McpServer): void {
-  server.tool(
+  registerTool(
+    server,
     "get_user",
     "Get the current Lunch Money user's account info: name, email, budget name, and primary currency.",
     {},
+    { user: userSchema },
     async () => {
       const { data, error, response } = await api.GET("/me");
-      if (error) handleError(response.status, error);
+      if (error) handleError(response, error);
 
       return {
         content: [{ type: "text", text: formatUser(data as Record<string, unknown>) }],
+        structuredContent: { user: hydrateUser(data as User) },
       };
     }
   );